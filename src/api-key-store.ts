@@ -0,0 +1,128 @@
+import * as vscode from 'vscode';
+import * as child_process from 'child_process';
+
+/**
+ * This module stores the OpenAI API key in VS Code's SecretStorage.
+ * Keys are never written to settings.json; keys found there from older
+ * versions are moved into SecretStorage once the user agrees.
+ */
+
+const SECRET_KEY = 'whisperToClipboard.openaiApiKey';
+
+let secrets: vscode.SecretStorage | null = null;
+
+/**
+ * Initializes the store with the extension's SecretStorage
+ * @param secretStorage The SecretStorage from the extension context
+ */
+export function initApiKeyStore(secretStorage: vscode.SecretStorage): void {
+    secrets = secretStorage;
+}
+
+/**
+ * Reads the API key from SecretStorage
+ * @returns The stored key, or an empty string if none is stored
+ */
+export async function getStoredApiKey(): Promise<string> {
+    if (!secrets) {
+        return '';
+    }
+    return (await secrets.get(SECRET_KEY)) || '';
+}
+
+/**
+ * Saves the API key to SecretStorage, or deletes it when the key is empty
+ * @param apiKey The key to store
+ */
+export async function storeApiKey(apiKey: string): Promise<void> {
+    if (!secrets) {
+        throw new Error('Secret storage is not available');
+    }
+    if (apiKey) {
+        await secrets.store(SECRET_KEY, apiKey);
+    } else {
+        await secrets.delete(SECRET_KEY);
+    }
+}
+
+/**
+ * Reads an API key left in settings.json by older versions, which is used until it is moved to SecretStorage
+ * @returns The key from the most specific settings scope, or undefined if there is none
+ */
+export function getSettingsApiKey(): string | undefined {
+    const inspected = vscode.workspace.getConfiguration('whisperToClipboard').inspect<string>('openaiApiKey');
+    return inspected?.workspaceFolderValue || inspected?.workspaceValue || inspected?.globalValue || undefined;
+}
+
+/**
+ * Moves an API key left in settings.json by older versions into SecretStorage
+ * and removes it from every settings scope it was found in
+ * @returns True if a key was migrated
+ */
+export async function migrateApiKeyFromSettings(): Promise<boolean> {
+    const config = vscode.workspace.getConfiguration('whisperToClipboard');
+    const inspected = config.inspect<string>('openaiApiKey');
+    const legacyKey = getSettingsApiKey();
+
+    if (!legacyKey) {
+        return false;
+    }
+
+    // Only take the settings key if nothing is stored yet, but clean up settings either way
+    if (!(await getStoredApiKey())) {
+        await storeApiKey(legacyKey);
+    }
+
+    const targets: [string | undefined, vscode.ConfigurationTarget][] = [
+        [inspected?.globalValue, vscode.ConfigurationTarget.Global],
+        [inspected?.workspaceValue, vscode.ConfigurationTarget.Workspace],
+        [inspected?.workspaceFolderValue, vscode.ConfigurationTarget.WorkspaceFolder]
+    ];
+    for (const [value, target] of targets) {
+        if (value !== undefined) {
+            try {
+                await config.update('openaiApiKey', undefined, target);
+            } catch (error) {
+                console.error('Failed to remove API key from settings:', error);
+            }
+        }
+    }
+
+    console.log('Migrated API key from settings to secret storage');
+    return true;
+}
+
+/**
+ * Reads an API key from an environment variable of the editor process
+ * @param variableName The name of the environment variable
+ * @returns The key, or undefined if the variable is not set
+ */
+export function readApiKeyFromEnvironment(variableName: string): string | undefined {
+    const value = process.env[variableName];
+    return value ? value.trim() : undefined;
+}
+
+/**
+ * Runs a password manager helper (e.g. `op read ...` or `pass show ...`)
+ * and returns the first line of its output as the API key
+ * @param command The shell command to run
+ * @returns A promise that resolves to the key
+ */
+export function readApiKeyFromHelperCommand(command: string): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+        child_process.exec(command, { timeout: 30000 }, (error, stdout, stderr) => {
+            if (error) {
+                console.error('API key helper command failed:', stderr);
+                reject(new Error(`Helper command failed: ${stderr.trim() || error.message}`));
+                return;
+            }
+
+            const key = stdout.split('\n')[0].trim();
+            if (!key) {
+                reject(new Error('Helper command did not print an API key'));
+                return;
+            }
+            resolve(key);
+        });
+    });
+}
@@ -0,0 +1,419 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as child_process from 'child_process';
+
+/**
+ * This module splits long recordings into chunks for transcription.
+ * Chunk boundaries are placed in pauses found with FFmpeg's silencedetect filter,
+ * and every chunk after the first starts a little before its boundary so that
+ * the words at the seam are heard in context.
+ */
+
+/**
+ * A piece of a recording that is transcribed on its own
+ */
+export interface AudioChunk {
+    file: string;
+    // Position of the chunk's first sample in the original recording
+    startSeconds: number;
+    // Audio at the start of the chunk that also belongs to the previous chunk
+    overlapSeconds: number;
+    // Position of the chunk's last sample in the original recording, if known
+    endSeconds?: number;
+}
+
+/**
+ * Audio formats chunks and uploads can be encoded in
+ */
+export type AudioFormat = 'wav' | 'flac' | 'mp3' | 'opus';
+
+interface AudioFormatDefinition {
+    extension: string;
+    codecArgs: string[];
+    // Rough encoded size for mono speech, used to plan uploads
+    estimateBytesPerSecond(sampleRate: number): number;
+}
+
+export const AUDIO_FORMATS: Record<AudioFormat, AudioFormatDefinition> = {
+    'wav': {
+        extension: 'wav',
+        codecArgs: ['-c:a', 'pcm_s16le'],
+        estimateBytesPerSecond: sampleRate => sampleRate * 2
+    },
+    'flac': {
+        extension: 'flac',
+        codecArgs: ['-c:a', 'flac'],
+        // Lossless, speech typically compresses to a bit over half the PCM size
+        estimateBytesPerSecond: sampleRate => sampleRate * 2 * 0.6
+    },
+    'mp3': {
+        extension: 'mp3',
+        codecArgs: ['-c:a', 'libmp3lame', '-b:a', '64k'],
+        estimateBytesPerSecond: () => 64000 / 8
+    },
+    'opus': {
+        extension: 'ogg',
+        codecArgs: ['-c:a', 'libopus', '-b:a', '32k'],
+        estimateBytesPerSecond: () => 32000 / 8
+    }
+};
+
+/**
+ * A stretch of silence found in a recording
+ */
+export interface SilenceInterval {
+    start: number;
+    end: number;
+}
+
+// Shortest pause that can be used as a chunk boundary
+const MIN_PAUSE_SECONDS = 0.3;
+// A boundary is searched for in the second half of each chunk, so chunks never get too short
+const MIN_CHUNK_FRACTION = 0.5;
+
+// Function to check if ffmpeg is installed
+export async function isFFmpegInstalled(): Promise<boolean> {
+    try {
+        await new Promise<void>((resolve, reject) => {
+            const process = child_process.spawn('ffmpeg', ['-version']);
+            let output = '';
+
+            process.stdout.on('data', (data) => {
+                output += data.toString();
+            });
+
+            process.on('close', (code) => {
+                if (code === 0) {
+                    console.log(`FFmpeg found: ${output.split('\n')[0]}`);
+                    resolve();
+                } else {
+                    reject(new Error(`FFmpeg exited with code ${code}`));
+                }
+            });
+
+            process.on('error', (err) => {
+                console.error('FFmpeg error:', err);
+                reject(err);
+            });
+        });
+        return true;
+    } catch (error) {
+        console.log('FFmpeg not found or not working properly:', error);
+        return false;
+    }
+}
+
+// Function to get the duration of an audio file in seconds using ffprobe
+export async function getAudioDuration(inputFile: string): Promise<number> {
+    const durationOutput = await new Promise<string>((resolve, reject) => {
+        const process = child_process.spawn('ffprobe', [
+            '-v', 'error',
+            '-show_entries', 'format=duration',
+            '-of', 'default=noprint_wrappers=1:nokey=1',
+            inputFile
+        ]);
+
+        let output = '';
+        let errorOutput = '';
+
+        process.stdout.on('data', (data) => {
+            output += data.toString();
+        });
+
+        process.stderr.on('data', (data) => {
+            errorOutput += data.toString();
+        });
+
+        process.on('close', (code) => {
+            if (code === 0) {
+                resolve(output.trim());
+            } else {
+                console.error('FFprobe error output:', errorOutput);
+                reject(new Error(`FFprobe exited with code ${code}: ${errorOutput}`));
+            }
+        });
+
+        process.on('error', (err) => {
+            console.error('FFprobe process error:', err);
+            reject(err);
+        });
+    });
+
+    return parseFloat(durationOutput);
+}
+
+// Function to find pauses in an audio file using ffmpeg's silencedetect filter
+export async function detectSilences(inputFile: string, thresholdDb: number, signal?: AbortSignal): Promise<SilenceInterval[]> {
+    const output = await new Promise<string>((resolve, reject) => {
+        const process = child_process.spawn('ffmpeg', [
+            '-hide_banner',
+            '-i', inputFile,
+            '-af', `silencedetect=noise=${thresholdDb}dB:d=${MIN_PAUSE_SECONDS}`,
+            '-f', 'null',
+            '-'
+        ], { signal });
+
+        // silencedetect reports on stderr
+        let errorOutput = '';
+
+        process.stderr.on('data', (data) => {
+            errorOutput += data.toString();
+        });
+
+        process.on('close', (code) => {
+            if (code === 0) {
+                resolve(errorOutput);
+            } else {
+                reject(new Error(`FFmpeg silencedetect exited with code ${code}: ${errorOutput}`));
+            }
+        });
+
+        process.on('error', (err) => {
+            reject(err);
+        });
+    });
+
+    const silences: SilenceInterval[] = [];
+    let currentStart: number | null = null;
+
+    for (const line of output.split('\n')) {
+        const startMatch = line.match(/silence_start:\s*(-?[\d.]+)/);
+        if (startMatch) {
+            currentStart = Math.max(0, parseFloat(startMatch[1]));
+            continue;
+        }
+
+        const endMatch = line.match(/silence_end:\s*([\d.]+)/);
+        if (endMatch && currentStart !== null) {
+            silences.push({ start: currentStart, end: parseFloat(endMatch[1]) });
+            currentStart = null;
+        }
+    }
+
+    return silences;
+}
+
+/**
+ * Picks chunk boundaries no more than maxChunkDuration apart, preferring the middle
+ * of the last pause before each limit and cutting hard only when there is no pause
+ * @param duration Length of the recording in seconds
+ * @param silences Pauses in the recording
+ * @param maxChunkDuration Longest allowed chunk in seconds
+ * @returns The start time of every chunk, beginning with 0
+ */
+export function chooseChunkBoundaries(duration: number, silences: SilenceInterval[], maxChunkDuration: number): number[] {
+    const boundaries = [0];
+    let chunkStart = 0;
+
+    while (duration - chunkStart > maxChunkDuration) {
+        const earliest = chunkStart + maxChunkDuration * MIN_CHUNK_FRACTION;
+        const latest = chunkStart + maxChunkDuration;
+
+        let boundary = latest;
+        for (const silence of silences) {
+            const middle = (silence.start + silence.end) / 2;
+            if (middle >= earliest && middle <= latest) {
+                boundary = middle; // Keep the last pause that still fits
+            }
+        }
+
+        boundaries.push(boundary);
+        chunkStart = boundary;
+    }
+
+    return boundaries;
+}
+
+// Function to re-encode an audio file as mono in the given format, keeping its sample rate.
+// Aborting kills ffmpeg and deletes the partial output.
+export async function transcodeAudio(inputFile: string, format: AudioFormat, signal?: AbortSignal): Promise<string> {
+    const outputFile = `${inputFile}_upload.${AUDIO_FORMATS[format].extension}`;
+
+    await new Promise<void>((resolve, reject) => {
+        const process = child_process.spawn('ffmpeg', [
+            '-i', inputFile,
+            '-vn', // Drop any video stream
+            ...AUDIO_FORMATS[format].codecArgs,
+            '-ac', '1', // Mono
+            '-y', // Overwrite output files
+            outputFile
+        ], { signal });
+
+        let errorOutput = '';
+
+        process.stderr.on('data', (data) => {
+            errorOutput += data.toString();
+        });
+
+        process.on('close', (code) => {
+            if (code === 0) {
+                resolve();
+            } else {
+                console.error('FFmpeg transcoding error:', errorOutput);
+                reject(new Error(`FFmpeg exited with code ${code} while converting to ${format}: ${errorOutput}`));
+            }
+        });
+
+        process.on('error', (err) => {
+            reject(err);
+        });
+    }).catch(error => {
+        deleteFiles([outputFile]);
+        throw error;
+    });
+
+    return outputFile;
+}
+
+// Function to extract the audio of an audio or video file as 16kHz mono WAV; Whisper works at 16kHz, so nothing is lost for transcription
+export async function extractAudio(inputFile: string, outputFile: string, signal?: AbortSignal): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+        const process = child_process.spawn('ffmpeg', [
+            '-i', inputFile,
+            '-vn', // Drop any video stream
+            '-c:a', 'pcm_s16le',
+            '-ar', '16000',
+            '-ac', '1', // Mono
+            '-y', // Overwrite output files
+            outputFile
+        ], { signal });
+
+        let errorOutput = '';
+
+        process.stderr.on('data', (data) => {
+            errorOutput += data.toString();
+        });
+
+        process.on('close', (code) => {
+            if (code === 0) {
+                resolve();
+            } else {
+                console.error('FFmpeg audio extraction error:', errorOutput);
+                // The last line says why, e.g. that the file has no audio stream
+                const reason = errorOutput.trim().split('\n').pop() ?? '';
+                reject(new Error(`FFmpeg could not extract the audio (exit code ${code}): ${reason}`));
+            }
+        });
+
+        process.on('error', (err) => {
+            reject(err);
+        });
+    });
+}
+
+// Function to delete files written by ffmpeg, if they exist
+function deleteFiles(files: string[]): void {
+    for (const file of files) {
+        if (fs.existsSync(file)) {
+            fs.unlinkSync(file);
+        }
+    }
+}
+
+// Function to split audio file into chunks. Aborting kills ffmpeg, deletes the chunks written so far and rejects.
+export async function splitAudioFile(
+    inputFile: string,
+    maxChunkDuration: number = 60,
+    overlapSeconds: number = 0,
+    silenceThresholdDb: number = -40,
+    format: AudioFormat = 'wav',
+    signal?: AbortSignal
+): Promise<AudioChunk[]> {
+    const unsplit: AudioChunk[] = [{ file: inputFile, startSeconds: 0, overlapSeconds: 0 }];
+
+    const hasFFmpeg = await isFFmpegInstalled();
+    if (!hasFFmpeg) {
+        console.log('FFmpeg not installed or not working properly, skipping audio splitting');
+        vscode.window.showWarningMessage('FFmpeg not found. Long recordings may not be transcribed accurately. Consider installing FFmpeg for better results.');
+        return unsplit; // Return original file if FFmpeg is not available
+    }
+
+    const chunks: AudioChunk[] = [];
+    try {
+        const duration = await getAudioDuration(inputFile);
+        console.log(`Audio duration: ${duration} seconds`);
+
+        if (isNaN(duration)) {
+            console.error('Could not determine audio duration, using original file');
+            return unsplit;
+        }
+
+        // A short recording is still converted if another format was asked for, it may be too big as it is
+        if (duration <= maxChunkDuration && format === 'wav') {
+            console.log(`Audio duration (${duration}s) is less than max chunk duration (${maxChunkDuration}s), no need to split`);
+            return unsplit; // No need to split if duration is less than max chunk duration
+        }
+
+        // Cut in pauses where possible so that no word is sliced in half
+        let silences: SilenceInterval[] = [];
+        try {
+            silences = await detectSilences(inputFile, silenceThresholdDb, signal);
+            console.log(`Found ${silences.length} pauses in the recording`);
+        } catch (error) {
+            if (signal?.aborted) {
+                throw error;
+            }
+            console.error('Silence detection failed, splitting at fixed intervals:', error);
+        }
+
+        const boundaries = chooseChunkBoundaries(duration, silences, maxChunkDuration);
+        const numChunks = boundaries.length;
+        console.log(`Splitting audio into ${numChunks} chunks`);
+
+        // Split audio into chunks
+        for (let i = 0; i < numChunks; i++) {
+            const overlap = i > 0 ? Math.min(overlapSeconds, boundaries[i] - boundaries[i - 1]) : 0;
+            const startTime = boundaries[i] - overlap;
+            const endTime = i + 1 < numChunks ? boundaries[i + 1] : duration;
+            const chunkFile = `${inputFile}_chunk_${i}.${AUDIO_FORMATS[format].extension}`;
+            chunks.push({ file: chunkFile, startSeconds: startTime, overlapSeconds: overlap, endSeconds: endTime });
+
+            console.log(`Creating chunk ${i+1}/${numChunks}: ${startTime.toFixed(2)}s to ${endTime.toFixed(2)}s`);
+
+            await new Promise<void>((resolve, reject) => {
+                const process = child_process.spawn('ffmpeg', [
+                    '-i', inputFile,
+                    '-ss', startTime.toFixed(3),
+                    '-t', (endTime - startTime).toFixed(3),
+                    '-vn', // Drop any video stream
+                    ...AUDIO_FORMATS[format].codecArgs, // Keeps the recording's sample rate
+                    '-ac', '1', // Mono
+                    '-y', // Overwrite output files
+                    chunkFile
+                ], { signal });
+
+                let errorOutput = '';
+
+                process.stderr.on('data', (data) => {
+                    errorOutput += data.toString();
+                });
+
+                process.on('close', (code) => {
+                    if (code === 0) {
+                        console.log(`Successfully created chunk ${i+1}/${numChunks}`);
+                        resolve();
+                    } else {
+                        console.error(`FFmpeg error for chunk ${i+1}:`, errorOutput);
+                        reject(new Error(`FFmpeg exited with code ${code} for chunk ${i+1}: ${errorOutput}`));
+                    }
+                });
+
+                process.on('error', (err) => {
+                    console.error(`FFmpeg process error for chunk ${i+1}:`, err);
+                    reject(err);
+                });
+            });
+        }
+
+        return chunks;
+    } catch (error) {
+        // Chunks written before the error aren't used
+        deleteFiles(chunks.map(chunk => chunk.file));
+        if (signal?.aborted) {
+            throw error;
+        }
+        console.error('Error splitting audio file:', error);
+        vscode.window.showWarningMessage('Error splitting audio file. Using original file for transcription.');
+        return unsplit; // Return original file if splitting fails
+    }
+}
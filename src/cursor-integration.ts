@@ -1,37 +1,136 @@
 import * as vscode from 'vscode';
 
 /**
- * This module provides clipboard integration for the Voice-to-Text extension.
- * It focuses ONLY on clipboard operations and does not insert text into any editor.
+ * This module delivers transcripts to where the user wants them: the clipboard
+ * (the default), the active editor, the active terminal, a scratch document or
+ * the chat input. Several targets can be used at once.
  */
 
 /**
- * Copies text to the clipboard and shows a notification
- * @param text The text to copy to clipboard
- * @returns A promise that resolves to true if successful, false otherwise
+ * Places a transcript can be sent to
  */
-export async function copyToClipboard(text: string): Promise<boolean> {
-    try {
-        // ONLY copy text to clipboard using the VS Code API
-        await vscode.env.clipboard.writeText(text);
-        
-        // Show notification to user
-        vscode.window.showInformationMessage(
-            'Text copied to clipboard. Paste it with Cmd+V (Mac) or Ctrl+V (Windows/Linux).',
-            'Open Chat'
-        ).then(selection => {
-            if (selection === 'Open Chat') {
-                // Try to open chat window
-                tryOpenChatWindow();
+export type OutputTarget = 'clipboard' | 'insert' | 'terminal' | 'scratch' | 'chat';
+
+const OUTPUT_TARGETS: OutputTarget[] = ['clipboard', 'insert', 'terminal', 'scratch', 'chat'];
+
+// The untitled document transcripts are appended to with the 'scratch' target
+let scratchDocument: vscode.TextDocument | null = null;
+
+// Function to check if a value is a known output target
+export function isOutputTarget(value: unknown): value is OutputTarget {
+    return typeof value === 'string' && (OUTPUT_TARGETS as string[]).includes(value);
+}
+
+/**
+ * Gets the output targets to use
+ * @param override Targets passed by a keybinding or command, replacing the configured ones
+ * @returns The targets, never empty
+ */
+export function getOutputTargets(override?: unknown): OutputTarget[] {
+    const configured = Array.isArray(override)
+        ? override
+        : vscode.workspace.getConfiguration('whisperToClipboard').get<string[]>('outputTargets', ['clipboard']);
+    const targets = configured.filter(isOutputTarget);
+    return targets.length > 0 ? [...new Set(targets)] : ['clipboard'];
+}
+
+/**
+ * Sends a transcript to each of the given targets. Targets that aren't available
+ * (e.g. no open editor) are reported and the text is copied to the clipboard instead.
+ * @param text The transcript
+ * @param targets Where to send it
+ * @returns A description of what was done for each target, for the success message
+ */
+export async function deliverTranscript(text: string, targets: OutputTarget[]): Promise<string[]> {
+    const delivered: string[] = [];
+    let needsClipboard = targets.includes('clipboard');
+
+    for (const target of targets) {
+        try {
+            switch (target) {
+                case 'insert': {
+                    const editor = vscode.window.activeTextEditor;
+                    if (!editor) {
+                        vscode.window.showWarningMessage('No active editor to insert the transcription into.');
+                        needsClipboard = true;
+                        break;
+                    }
+                    // Replaces the selection, or inserts at the cursor if nothing is selected
+                    await editor.edit(editBuilder => {
+                        for (const selection of editor.selections) {
+                            editBuilder.replace(selection, text);
+                        }
+                    });
+                    delivered.push('inserted into the editor');
+                    break;
+                }
+                case 'terminal': {
+                    const terminal = vscode.window.activeTerminal;
+                    if (!terminal) {
+                        vscode.window.showWarningMessage('No active terminal to send the transcription to.');
+                        needsClipboard = true;
+                        break;
+                    }
+                    // Don't press Enter, the user reviews the command first
+                    terminal.sendText(text, false);
+                    terminal.show(true);
+                    delivered.push('sent to the terminal');
+                    break;
+                }
+                case 'scratch':
+                    await appendToScratchDocument(text);
+                    delivered.push('appended to the scratch document');
+                    break;
+                case 'chat':
+                    if (await sendToChatInput(text)) {
+                        delivered.push('sent to the chat input');
+                    } else {
+                        // Fall back to clipboard and the chat window, the user pastes the text there
+                        needsClipboard = true;
+                        tryOpenChatWindow();
+                    }
+                    break;
             }
-        });
-        
-        return true;
-    } catch (error) {
-        console.error('Failed to copy to clipboard:', error);
-        vscode.window.showErrorMessage(`Failed to copy to clipboard: ${error instanceof Error ? error.message : String(error)}`);
+        } catch (error) {
+            console.error(`Failed to send transcription to ${target}:`, error);
+            vscode.window.showErrorMessage(`Failed to send transcription to ${target}: ${error instanceof Error ? error.message : String(error)}`);
+            needsClipboard = true;
+        }
+    }
+
+    if (needsClipboard) {
+        await vscode.env.clipboard.writeText(text);
+        delivered.unshift('copied to clipboard');
+    }
+    return delivered;
+}
+
+// Function to append text to the scratch document, opening a new one if it was closed
+async function appendToScratchDocument(text: string): Promise<void> {
+    if (!scratchDocument || scratchDocument.isClosed) {
+        scratchDocument = await vscode.workspace.openTextDocument({ content: '', language: 'markdown' });
+    }
+
+    const document = scratchDocument;
+    const end = document.lineAt(document.lineCount - 1).range.end;
+    const separator = document.getText().trim().length > 0 ? '\n\n' : '';
+    const edit = new vscode.WorkspaceEdit();
+    edit.insert(document.uri, end, separator + text);
+    await vscode.workspace.applyEdit(edit);
+
+    await vscode.window.showTextDocument(document, { preview: false, preserveFocus: true, viewColumn: vscode.ViewColumn.Beside });
+}
+
+// Function to put text into the chat input, if the host has a command that accepts it
+async function sendToChatInput(text: string): Promise<boolean> {
+    const commands = await vscode.commands.getCommands(true);
+    if (!commands.includes('workbench.action.chat.open')) {
         return false;
     }
+
+    // isPartialQuery leaves the text in the input instead of submitting it
+    await vscode.commands.executeCommand('workbench.action.chat.open', { query: text, isPartialQuery: true });
+    return true;
 }
 
 /**
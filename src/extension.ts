@@ -1,22 +1,85 @@
 // src/extension.ts
 import * as vscode from 'vscode';
-import { OpenAI } from 'openai';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import * as child_process from 'child_process';
-import { copyToClipboard, tryOpenChatWindow } from './cursor-integration';
+import {
+    Recorder,
+    createRecorder,
+    detectAvailableBackends,
+    getBackendLabel,
+    getPlatformBackends,
+    isRecorderBackend,
+    listInputDevices,
+    resolveRecorderBackend
+} from './recorder';
+import { checkAndRepairWav, concatenateWavFiles } from './wav';
+import { SilenceMonitor, getVadSettings, trimSilence } from './vad';
+import { OutputTarget, deliverTranscript, getOutputTargets, tryOpenChatWindow } from './cursor-integration';
+import { AudioChunk, extractAudio, isFFmpegInstalled } from './audio-splitter';
+import { describeUploadPlan, getUploadLimits, planUpload, prepareUpload } from './upload-planner';
+import { NoSpeechError, TranscriptionCancelledError, TranscriptionOutcome, transcribeAudio } from './transcriber';
+import { isRecoverableError } from './retry';
+import { HistoryEntry, HistoryTreeProvider, TranscriptionHistory } from './history';
+import { FailedRecording, FailedRecordingQueue } from './failed-recordings';
+import { buildVocabularyPrompt } from './vocabulary';
+import { TRANSCRIPT_FORMATS, formatTranscript } from './transcript-formats';
+import { postProcessTranscript } from './post-processing';
+import { LiveDictation } from './live-dictation';
+import { VoiceCommandMode, goToLine, runVoiceCommand } from './voice-commands';
+import { RewritePreset, getRewriteModel, getTranslationPreset, isRewriteEnabled, pickRewritePreset, rewriteTranscript } from './rewriter';
+import {
+    TranscriptionProvider,
+    OpenAITranscriptionProvider,
+    LocalWhisperProvider,
+    getConfiguredProviderKind,
+    getLocalWhisperOptions
+} from './transcription-provider';
+import { createOpenAIClient, getEndpointSettings, isCustomEndpoint } from './openai-client';
+import {
+    initApiKeyStore,
+    getStoredApiKey,
+    getSettingsApiKey,
+    storeApiKey,
+    migrateApiKeyFromSettings,
+    readApiKeyFromEnvironment,
+    readApiKeyFromHelperCommand
+} from './api-key-store';
+
+// Where a transcript goes: output targets, or a function that delivers it and describes what it did
+type TranscriptDelivery = OutputTarget[] | ((text: string) => Promise<string[]>);
 
 // Global variables
 let statusBarItem: vscode.StatusBarItem;
 let recordButton: vscode.StatusBarItem;
+let cancelButton: vscode.StatusBarItem;
+let pauseButton: vscode.StatusBarItem;
 let isRecording = false;
-let recordingProcess: child_process.ChildProcess | null = null;
+let isPaused = false;
+let recorder: Recorder | null = null;
 let tempFilePath: string = '';
+// Finished segments of a recording that was paused, and their total length
+let recordingSegments: string[] = [];
+let recordedSeconds = 0;
+let segmentStartedAt = 0;
+let recordingSampleRate = '';
+let recordingDeadline: number = 0;
+let countdownTimer: NodeJS.Timeout | null = null;
+let silenceMonitor: SilenceMonitor | null = null;
 let apiKey: string = '';
-let openai: OpenAI | null = null;
 let chatButton: vscode.WebviewView | null = null;
-let globalApiKey: string = '';
+let history: TranscriptionHistory | null = null;
+let failedRecordings: FailedRecordingQueue | null = null;
+let recordingTargets: OutputTarget[] = ['clipboard'];
+// Whether the current recording is translated into English
+let recordingTranslates = false;
+// Whether the current recording is a voice command rather than a dictation
+let recordingIsCommand = false;
+// Ghost-text preview of the current recording, null unless started as live dictation
+let liveDictation: LiveDictation | null = null;
+let pendingStart: Promise<void> | null = null;
+let pendingPause: Promise<void> | null = null;
+let activeTranscriptions = new Set<AbortController>();
 
 // Function to update the recording state context
 function updateRecordingState(recording: boolean) {
@@ -76,335 +139,84 @@ function getLanguageMode(): { code: string | null, description: string } {
     };
 }
 
-// Function to check if ffmpeg is installed
-async function isFFmpegInstalled(): Promise<boolean> {
-    try {
-        await new Promise<void>((resolve, reject) => {
-            const process = child_process.spawn('ffmpeg', ['-version']);
-            let output = '';
-            
-            process.stdout.on('data', (data) => {
-                output += data.toString();
-            });
-            
-            process.on('close', (code) => {
-                if (code === 0) {
-                    console.log(`FFmpeg found: ${output.split('\n')[0]}`);
-                    resolve();
-                } else {
-                    reject(new Error(`FFmpeg exited with code ${code}`));
-                }
-            });
-            
-            process.on('error', (err) => {
-                console.error('FFmpeg error:', err);
-                reject(err);
-            });
-        });
-        return true;
-    } catch (error) {
-        console.log('FFmpeg not found or not working properly:', error);
-        return false;
-    }
+// Extensions of the audio and video files that can be transcribed; the explorer menu in package.json lists the same
+const MEDIA_EXTENSIONS = ['mp3', 'm4a', 'wav', 'ogg', 'oga', 'opus', 'flac', 'aac', 'wma', 'webm', 'mp4', 'm4v', 'mov', 'mkv', 'avi', 'mpeg', 'mpg', 'mpga'];
+
+// Languages offered when picking a language mode
+const LANGUAGE_OPTIONS = [
+    { label: 'Auto-detect language', description: 'Let Whisper automatically detect the language', target: 'auto' },
+    { label: 'English', description: 'Force English transcription', target: 'en' },
+    { label: 'German (Deutsch)', description: 'Force German transcription', target: 'de' },
+    { label: 'French (Français)', description: 'Force French transcription', target: 'fr' },
+    { label: 'Spanish (Español)', description: 'Force Spanish transcription', target: 'es' },
+    { label: 'Italian (Italiano)', description: 'Force Italian transcription', target: 'it' },
+    { label: 'Portuguese (Português)', description: 'Force Portuguese transcription', target: 'pt' },
+    { label: 'Dutch (Nederlands)', description: 'Force Dutch transcription', target: 'nl' },
+    { label: 'Japanese (日本語)', description: 'Force Japanese transcription', target: 'ja' },
+    { label: 'Chinese (中文)', description: 'Force Chinese transcription', target: 'zh' },
+    { label: 'Russian (Русский)', description: 'Force Russian transcription', target: 'ru' }
+];
+
+// Function to format seconds as m:ss
+function formatDuration(totalSeconds: number): string {
+    const seconds = Math.max(0, Math.round(totalSeconds));
+    return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
 }
 
-// Function to split audio file into chunks
-async function splitAudioFile(inputFile: string, maxChunkDuration: number = 60): Promise<string[]> {
-    const hasFFmpeg = await isFFmpegInstalled();
-    if (!hasFFmpeg) {
-        console.log('FFmpeg not installed or not working properly, skipping audio splitting');
-        vscode.window.showWarningMessage('FFmpeg not found. Long recordings may not be transcribed accurately. Consider installing FFmpeg for better results.');
-        return [inputFile]; // Return original file if FFmpeg is not available
-    }
-    
-    try {
-        // Get audio duration using ffprobe
-        const durationOutput = await new Promise<string>((resolve, reject) => {
-            const process = child_process.spawn('ffprobe', [
-                '-v', 'error',
-                '-show_entries', 'format=duration',
-                '-of', 'default=noprint_wrappers=1:nokey=1',
-                inputFile
-            ]);
-            
-            let output = '';
-            let errorOutput = '';
-            
-            process.stdout.on('data', (data) => {
-                output += data.toString();
-            });
-            
-            process.stderr.on('data', (data) => {
-                errorOutput += data.toString();
-            });
-            
-            process.on('close', (code) => {
-                if (code === 0) {
-                    resolve(output.trim());
-                } else {
-                    console.error('FFprobe error output:', errorOutput);
-                    reject(new Error(`FFprobe exited with code ${code}: ${errorOutput}`));
-                }
-            });
-            
-            process.on('error', (err) => {
-                console.error('FFprobe process error:', err);
-                reject(err);
-            });
-        });
-        
-        const duration = parseFloat(durationOutput);
-        console.log(`Audio duration: ${duration} seconds`);
-        
-        if (isNaN(duration)) {
-            console.error('Could not determine audio duration, using original file');
-            return [inputFile];
-        }
-        
-        if (duration <= maxChunkDuration) {
-            console.log(`Audio duration (${duration}s) is less than max chunk duration (${maxChunkDuration}s), no need to split`);
-            return [inputFile]; // No need to split if duration is less than max chunk duration
-        }
-        
-        // Calculate number of chunks
-        const numChunks = Math.ceil(duration / maxChunkDuration);
-        console.log(`Splitting audio into ${numChunks} chunks`);
-        
-        const chunkFiles: string[] = [];
-        
-        // Split audio into chunks
-        for (let i = 0; i < numChunks; i++) {
-            const startTime = i * maxChunkDuration;
-            const chunkFile = `${inputFile}_chunk_${i}.wav`;
-            chunkFiles.push(chunkFile);
-            
-            console.log(`Creating chunk ${i+1}/${numChunks}: ${startTime}s to ${startTime + maxChunkDuration}s`);
-            
-            await new Promise<void>((resolve, reject) => {
-                const process = child_process.spawn('ffmpeg', [
-                    '-i', inputFile,
-                    '-ss', startTime.toString(),
-                    '-t', maxChunkDuration.toString(),
-                    '-c:a', 'pcm_s16le', // Use same codec as original
-                    '-ar', '24000', // Use standard sample rate
-                    '-ac', '1', // Mono
-                    '-y', // Overwrite output files
-                    chunkFile
-                ]);
-                
-                let errorOutput = '';
-                
-                process.stderr.on('data', (data) => {
-                    errorOutput += data.toString();
-                });
-                
-                process.on('close', (code) => {
-                    if (code === 0) {
-                        console.log(`Successfully created chunk ${i+1}/${numChunks}`);
-                        resolve();
-                    } else {
-                        console.error(`FFmpeg error for chunk ${i+1}:`, errorOutput);
-                        reject(new Error(`FFmpeg exited with code ${code} for chunk ${i+1}: ${errorOutput}`));
-                    }
-                });
-                
-                process.on('error', (err) => {
-                    console.error(`FFmpeg process error for chunk ${i+1}:`, err);
-                    reject(err);
-                });
-            });
-        }
-        
-        return chunkFiles;
-    } catch (error) {
-        console.error('Error splitting audio file:', error);
-        vscode.window.showWarningMessage('Error splitting audio file. Using original file for transcription.');
-        return [inputFile]; // Return original file if splitting fails
-    }
+// Function to get the configured input device (empty for the system default)
+function getInputDevice(): { id: string, description: string } {
+    const config = vscode.workspace.getConfiguration('whisperToClipboard');
+    const device = config.get<string>('inputDevice', '').trim();
+    return { id: device, description: device || 'System default' };
 }
 
-// Function to transcribe audio file(s) and combine results
-async function transcribeAudio(
-    audioFiles: string[], 
-    openaiClient: OpenAI, 
-    languageMode: { code: string | null, description: string }
-): Promise<string> {
-    if (audioFiles.length === 1) {
-        // Single file transcription
-        console.log('Transcribing single audio file');
-        
-        const apiParams: any = {
-            file: fs.createReadStream(audioFiles[0]),
-            model: "whisper-1",
-            response_format: "json",
-            temperature: 0.0,
-            // Use a more technical prompt that's less likely to be included in the output
-            prompt: ""
-        };
-        
-        if (languageMode.code) {
-            apiParams.language = languageMode.code;
-            console.log(`Using specific language for transcription: ${languageMode.description}`);
-        } else {
-            console.log('Using automatic language detection for transcription');
-        }
-        
-        try {
-            const transcription = await openaiClient.audio.transcriptions.create(apiParams);
-            
-            // Handle the response based on format
-            let result = '';
-            if (typeof transcription === 'string') {
-                result = transcription;
-            } else if (transcription && typeof transcription === 'object') {
-                // Extract text from JSON response
-                result = transcription.text || '';
-            }
-            
-            // Validate the result
-            if (!result || result.trim().length === 0) {
-                console.warn('Received empty transcription from Whisper API');
-                throw new Error('No speech detected in the recording');
-            }
-            
-            // Check if the result is just the prompt repeated
-            if (result.trim() === "This is a voice recording that may contain multiple sentences." || 
-                result.trim() === "This is a voice recording that may contain multiple sentences. Transcribe exactly what was said.") {
-                console.warn('Transcription appears to be just the prompt text');
-                throw new Error('No actual speech detected, only received the prompt text back');
-            }
-            
-            console.log(`Transcription successful: ${result.length} characters`);
-            return result;
-        } catch (error) {
-            console.error('Error during single file transcription:', error);
-            throw error;
-        }
-    } else {
-        // Multiple chunks transcription
-        console.log(`Transcribing ${audioFiles.length} audio chunks`);
-        let combinedTranscription = '';
-        
-        for (let i = 0; i < audioFiles.length; i++) {
-            console.log(`Processing chunk ${i+1}/${audioFiles.length}`);
-            vscode.window.setStatusBarMessage(`Transcribing chunk ${i+1}/${audioFiles.length}...`, 3000);
-            
-            // Use the end of previous transcription as context for the next chunk
-            const contextPrompt = i > 0 
-                ? `Continue from: "${combinedTranscription.slice(-150)}"`
-                : "";
-            
-            const apiParams: any = {
-                file: fs.createReadStream(audioFiles[i]),
-                model: "whisper-1",
-                response_format: "json",
-                temperature: 0.0,
-                prompt: contextPrompt
-            };
-            
-            if (languageMode.code) {
-                apiParams.language = languageMode.code;
-                
-                // Language-specific context prompts for continuation only
-                if (i > 0) {
-                    if (languageMode.code === 'de') {
-                        apiParams.prompt = `Setze fort von: "${combinedTranscription.slice(-150)}"`;
-                    } else if (languageMode.code === 'fr') {
-                        apiParams.prompt = `Continuez à partir de: "${combinedTranscription.slice(-150)}"`;
-                    } else if (languageMode.code === 'es') {
-                        apiParams.prompt = `Continúa desde: "${combinedTranscription.slice(-150)}"`;
-                    }
-                }
-            }
-            
-            try {
-                const transcription = await openaiClient.audio.transcriptions.create(apiParams);
-                
-                // Handle the response based on format
-                let chunkText = '';
-                if (typeof transcription === 'string') {
-                    chunkText = transcription;
-                } else if (transcription && typeof transcription === 'object') {
-                    // Extract text from JSON response
-                    chunkText = transcription.text || '';
-                }
-                
-                // Check if the result is just the prompt repeated
-                if (chunkText.trim() === "This is a voice recording that may contain multiple sentences." || 
-                    chunkText.trim() === "This is a voice recording that may contain multiple sentences. Transcribe exactly what was said.") {
-                    console.warn(`Chunk ${i+1} returned only the prompt text, skipping`);
-                    continue;
-                }
-                
-                if (!chunkText || chunkText.trim().length === 0) {
-                    console.warn(`Chunk ${i+1} returned empty transcription, skipping`);
-                    continue;
-                }
-                
-                console.log(`Chunk ${i+1} transcription: ${chunkText.length} characters`);
-                
-                // Smart joining of chunks to avoid duplicate text or broken sentences
-                if (i > 0) {
-                    // Check for overlap with previous chunk
-                    const lastWords = combinedTranscription.split(' ').slice(-5).join(' ').toLowerCase();
-                    const firstWords = chunkText.split(' ').slice(0, 5).join(' ').toLowerCase();
-                    
-                    if (lastWords.includes(firstWords) || firstWords.includes(lastWords)) {
-                        // There's overlap, find a good joining point
-                        const overlapIndex = chunkText.toLowerCase().indexOf(lastWords);
-                        if (overlapIndex > 0) {
-                            combinedTranscription += ' ' + chunkText.substring(overlapIndex + lastWords.length);
-                        } else {
-                            combinedTranscription += ' ' + chunkText;
-                        }
-                    } else {
-                        // No obvious overlap, just join with space if needed
-                        combinedTranscription += (combinedTranscription.endsWith('.') || chunkText.startsWith('.') || 
-                                                combinedTranscription.endsWith('!') || chunkText.startsWith('!') ||
-                                                combinedTranscription.endsWith('?') || chunkText.startsWith('?') ||
-                                                combinedTranscription.endsWith(',') || chunkText.startsWith(','))
-                            ? ' ' + chunkText
-                            : '. ' + chunkText;
-                    }
-                } else {
-                    // First chunk
-                    combinedTranscription = chunkText;
-                }
-            } catch (error) {
-                console.error(`Error transcribing chunk ${i+1}:`, error);
-                vscode.window.showWarningMessage(`Error with chunk ${i+1}. Continuing with partial transcription.`);
-                // Continue with other chunks despite error
-            }
-        }
-        
-        if (!combinedTranscription || combinedTranscription.trim().length === 0) {
-            throw new Error('Failed to transcribe any audio content from the chunks');
+// Function to get the shortest recording that is transcribed, in seconds
+function getMinRecordingSeconds(): number {
+    const config = vscode.workspace.getConfiguration('whisperToClipboard');
+    return Math.max(0, config.get<number>('minRecordingSeconds', 0));
+}
+
+// Function to get the configured overlap between chunks of long recordings
+function getChunkOverlap(): number {
+    const config = vscode.workspace.getConfiguration('whisperToClipboard');
+    return Math.max(0, config.get<number>('chunkOverlapSeconds', 2));
+}
+
+// Global state key that remembers that the user doesn't want the API key moved out of settings.json
+const API_KEY_MIGRATION_DECLINED = 'apiKeyMigrationDeclined';
+
+// Function to offer moving an API key left in settings.json to secure storage, until the user says "Not Now"
+async function offerApiKeyMigration(globalState: vscode.Memento): Promise<void> {
+    if (!getSettingsApiKey() || globalState.get<boolean>(API_KEY_MIGRATION_DECLINED, false)) {
+        return;
+    }
+    
+    const move = 'Move to Secure Storage';
+    const notNow = 'Not Now';
+    const choice = await vscode.window.showInformationMessage(
+        'Your OpenAI API key is saved in plain text in settings.json. Move it to VS Code\'s secure storage and remove it from your settings?',
+        move,
+        notNow
+    );
+    if (choice === move) {
+        if (await migrateApiKeyFromSettings()) {
+            vscode.window.showInformationMessage('Your OpenAI API key was moved to secure storage and removed from your settings.');
         }
-        
-        console.log(`Combined transcription complete: ${combinedTranscription.length} characters`);
-        return combinedTranscription;
+    } else if (choice === notNow) {
+        await globalState.update(API_KEY_MIGRATION_DECLINED, true);
     }
 }
 
 // Helper function to get API key with validation
 async function getApiKey(showValidationMessage: boolean = true): Promise<string | undefined> {
-    const config = vscode.workspace.getConfiguration('whisperToClipboard');
-    let apiKey = config.get<string>('openaiApiKey', '');
-    
-    // If API key is not set in settings, try the global variable
-    if (!apiKey && globalApiKey) {
-        apiKey = globalApiKey;
-        
-        // Save the global variable to settings for future use
-        await config.update('openaiApiKey', apiKey, true);
-        console.log('Migrated API key from global variable to settings');
-    }
+    // A key the user chose to keep in settings.json still works
+    const apiKey = (await getStoredApiKey()) || getSettingsApiKey();
     
     if (!apiKey) {
         if (showValidationMessage) {
             const setNow = 'Set API Key Now';
             const result = await vscode.window.showErrorMessage(
-                'OpenAI API key not set. Please set your API key in settings or use the command.',
+                'OpenAI API key not set. Please set your API key with the "Set OpenAI API Key" command.',
                 setNow
             );
             
@@ -415,8 +227,8 @@ async function getApiKey(showValidationMessage: boolean = true): Promise<string
         return undefined;
     }
     
-    // Basic validation - check if it starts with "sk-"
-    if (!apiKey.startsWith('sk-')) {
+    // Basic validation - check if it starts with "sk-" (custom endpoints use their own key formats)
+    if (!isCustomEndpoint() && !apiKey.startsWith('sk-')) {
         if (showValidationMessage) {
             const updateKey = 'Update Key';
             const result = await vscode.window.showErrorMessage(
@@ -434,13 +246,20 @@ async function getApiKey(showValidationMessage: boolean = true): Promise<string
     return apiKey;
 }
 
-// Function to validate API key with OpenAI
+// Function to validate API key and transcription model with OpenAI
 async function validateApiKey(apiKey: string): Promise<boolean> {
+    const settings = getEndpointSettings();
+    const model = settings.transcriptionModel;
     try {
-        const testClient = new OpenAI({ apiKey });
+        const testClient = createOpenAIClient(apiKey);
         
-        // Make a minimal API call to validate the key
-        await testClient.models.list();
+        if (settings.azureApiVersion) {
+            // Azure addresses deployments rather than model ids, so only the key can be checked
+            await testClient.models.list();
+        } else {
+            // Make a minimal API call that checks both the key and the configured model
+            await testClient.models.retrieve(model);
+        }
         return true;
     } catch (error: any) {
         console.error('API key validation error:', error);
@@ -448,6 +267,8 @@ async function validateApiKey(apiKey: string): Promise<boolean> {
         let errorMessage = 'Invalid API key or API access error.';
         if (error.status === 401) {
             errorMessage = 'Invalid API key. Please check your key and try again.';
+        } else if (error.status === 404) {
+            errorMessage = `Transcription model "${model}" is not available on the configured endpoint. Please check the whisperToClipboard.transcriptionModel setting.`;
         } else if (error.status === 403) {
             errorMessage = 'API key does not have access to the Whisper API. Please check your OpenAI account permissions.';
         } else if (error.message) {
@@ -459,20 +280,61 @@ async function validateApiKey(apiKey: string): Promise<boolean> {
     }
 }
 
+// Function to validate an API key and save it to secret storage
+async function validateAndStoreApiKey(apiKey: string): Promise<boolean> {
+    // Basic validation
+    if (!isCustomEndpoint() && !apiKey.startsWith('sk-')) {
+        vscode.window.showErrorMessage('Invalid API key format. OpenAI API keys should start with "sk-".');
+        return false;
+    }
+    
+    // Show validation in progress
+    return vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: "Validating OpenAI API key...",
+        cancellable: false
+    }, async () => {
+        const isValid = await validateApiKey(apiKey);
+        
+        if (isValid) {
+            await storeApiKey(apiKey);
+            vscode.window.showInformationMessage('OpenAI API key has been set and validated successfully.');
+        }
+        return isValid;
+    });
+}
+
+// Function to create the configured transcription provider, validating its requirements
+async function getTranscriptionProvider(showValidationMessage: boolean = true): Promise<TranscriptionProvider | undefined> {
+    if (getConfiguredProviderKind() === 'local') {
+        const options = getLocalWhisperOptions();
+        if (typeof options === 'string') {
+            if (showValidationMessage) {
+                vscode.window.showErrorMessage(options);
+            }
+            return undefined;
+        }
+        return new LocalWhisperProvider(options);
+    }
+    
+    const apiKey = await getApiKey(showValidationMessage);
+    if (!apiKey) {
+        return undefined; // getApiKey will show appropriate error message
+    }
+    return new OpenAITranscriptionProvider(createOpenAIClient(apiKey), getEndpointSettings().transcriptionModel);
+}
+
 export function activate(context: vscode.ExtensionContext) {
     console.log('Whisper to Clipboard extension is now active');
 
     // Initialize recording state context
     updateRecordingState(false);
     
-    // Try to load API key from settings
-    const config = vscode.workspace.getConfiguration('whisperToClipboard');
-    globalApiKey = config.get<string>('openaiApiKey', '');
-    
-    if (globalApiKey) {
-        openai = new OpenAI({ apiKey: globalApiKey });
-        console.log('Loaded API key from settings');
-    }
+    // Keep the API key in secret storage and offer to move any key left in settings.json there
+    initApiKeyStore(context.secrets);
+    offerApiKeyMigration(context.globalState).catch(error => {
+        console.error('Failed to migrate API key from settings:', error);
+    });
 
     // Create a status bar item to show recording status
     statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
@@ -488,6 +350,17 @@ export function activate(context: vscode.ExtensionContext) {
     recordButton.show();
     context.subscriptions.push(recordButton);
 
+    // Status bar button to pause and resume, shown only while recording
+    pauseButton = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 103);
+    pauseButton.tooltip = "Pause or resume the recording";
+    context.subscriptions.push(pauseButton);
+
+    // Status bar button to discard the recording or abort the transcription, shown only while there is something to cancel
+    cancelButton = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 102);
+    cancelButton.text = "$(close) Cancel";
+    cancelButton.command = "whisper-to-clipboard.cancel";
+    context.subscriptions.push(cancelButton);
+
     // Register webview provider for the chat panel
     const provider = {
         resolveWebviewView(webviewView: vscode.WebviewView) {
@@ -507,30 +380,50 @@ export function activate(context: vscode.ExtensionContext) {
             </head>
             <body>
                 <button id="recordBtn">Start Voice Recording</button>
+                <button id="pauseBtn" style="display: none;">Pause Recording</button>
+                <button id="cancelBtn" style="display: none;">Cancel</button>
+                <p id="recordingStatus" style="display: none;"></p>
                 <button id="openChatBtn">Open Chat Window</button>
                 <button id="setDurationBtn">Set Recording Duration</button>
                 <button id="setQualityBtn">Set Audio Quality</button>
                 <button id="setLanguageBtn">Set Language Mode</button>
-                <p><strong>Recorded text will ONLY be copied to your clipboard</strong> for easy pasting. No text will be inserted into the editor.</p>
+                <button id="selectDeviceBtn">Select Input Device</button>
+                <p>Recorded text is copied to your clipboard by default. Use the <code>whisperToClipboard.outputTargets</code> setting to insert it into the editor, the terminal, a scratch document or the chat input instead.</p>
                 <p>Current max recording duration: <span id="durationDisplay">${getRecordingDuration()}</span> seconds</p>
                 <p>Current audio quality: <span id="qualityDisplay">${getAudioQuality().description}</span></p>
                 <p>Current language mode: <span id="languageDisplay">${getLanguageMode().description}</span></p>
+                <p>Current input device: <span id="deviceDisplay"></span></p>
                 <script>
                     const vscode = acquireVsCodeApi();
                     const recordBtn = document.getElementById('recordBtn');
+                    const pauseBtn = document.getElementById('pauseBtn');
+                    const cancelBtn = document.getElementById('cancelBtn');
+                    const recordingStatus = document.getElementById('recordingStatus');
+                    let isPaused = false;
                     const openChatBtn = document.getElementById('openChatBtn');
                     const setDurationBtn = document.getElementById('setDurationBtn');
                     const setQualityBtn = document.getElementById('setQualityBtn');
                     const setLanguageBtn = document.getElementById('setLanguageBtn');
+                    const selectDeviceBtn = document.getElementById('selectDeviceBtn');
                     const durationDisplay = document.getElementById('durationDisplay');
                     const qualityDisplay = document.getElementById('qualityDisplay');
                     const languageDisplay = document.getElementById('languageDisplay');
+                    const deviceDisplay = document.getElementById('deviceDisplay');
+                    deviceDisplay.textContent = ${JSON.stringify(getInputDevice().description)};
                     let isRecording = false;
                     
                     recordBtn.addEventListener('click', () => {
                         vscode.postMessage({ command: 'toggleRecording' });
                     });
                     
+                    pauseBtn.addEventListener('click', () => {
+                        vscode.postMessage({ command: isPaused ? 'resumeRecording' : 'pauseRecording' });
+                    });
+                    
+                    cancelBtn.addEventListener('click', () => {
+                        vscode.postMessage({ command: 'cancel' });
+                    });
+                    
                     openChatBtn.addEventListener('click', () => {
                         vscode.postMessage({ command: 'openChat' });
                     });
@@ -547,6 +440,10 @@ export function activate(context: vscode.ExtensionContext) {
                         vscode.postMessage({ command: 'setLanguage' });
                     });
                     
+                    selectDeviceBtn.addEventListener('click', () => {
+                        vscode.postMessage({ command: 'selectDevice' });
+                    });
+                    
                     window.addEventListener('message', event => {
                         const message = event.data;
                         if (message.command === 'updateRecordingState') {
@@ -558,6 +455,17 @@ export function activate(context: vscode.ExtensionContext) {
                             qualityDisplay.textContent = message.quality;
                         } else if (message.command === 'updateLanguageMode') {
                             languageDisplay.textContent = message.mode;
+                        } else if (message.command === 'updateInputDevice') {
+                            deviceDisplay.textContent = message.device;
+                        } else if (message.command === 'updatePauseState') {
+                            isPaused = message.isPaused;
+                            pauseBtn.style.display = message.isRecording ? 'block' : 'none';
+                            pauseBtn.textContent = isPaused ? 'Resume Recording' : 'Pause Recording';
+                            recordingStatus.style.display = message.isRecording ? 'block' : 'none';
+                            recordingStatus.textContent = (isPaused ? 'Paused' : 'Recording') + ', ' + message.recorded + ' recorded';
+                        } else if (message.command === 'updateCancelState') {
+                            cancelBtn.style.display = message.canCancel ? 'block' : 'none';
+                            cancelBtn.textContent = message.label;
                         }
                     });
                 </script>
@@ -567,6 +475,12 @@ export function activate(context: vscode.ExtensionContext) {
             webviewView.webview.onDidReceiveMessage(message => {
                 if (message.command === 'toggleRecording') {
                     vscode.commands.executeCommand('whisper-to-clipboard.toggleRecording');
+                } else if (message.command === 'pauseRecording') {
+                    vscode.commands.executeCommand('whisper-to-clipboard.pauseRecording');
+                } else if (message.command === 'resumeRecording') {
+                    vscode.commands.executeCommand('whisper-to-clipboard.resumeRecording');
+                } else if (message.command === 'cancel') {
+                    vscode.commands.executeCommand('whisper-to-clipboard.cancel');
                 } else if (message.command === 'openChat') {
                     tryOpenChatWindow();
                 } else if (message.command === 'setDuration') {
@@ -575,6 +489,8 @@ export function activate(context: vscode.ExtensionContext) {
                     vscode.commands.executeCommand('whisper-to-clipboard.setAudioQuality');
                 } else if (message.command === 'setLanguage') {
                     vscode.commands.executeCommand('whisper-to-clipboard.setLanguageMode');
+                } else if (message.command === 'selectDevice') {
+                    vscode.commands.executeCommand('whisper-to-clipboard.selectInputDevice');
                 }
             });
             
@@ -588,7 +504,6 @@ export function activate(context: vscode.ExtensionContext) {
 
     // Register command to set API key
     let setApiKeyCommand = vscode.commands.registerCommand('whisper-to-clipboard.setApiKey', async () => {
-        const config = vscode.workspace.getConfiguration('whisperToClipboard');
         const currentKey = await getApiKey(false) || '';
         
         const result = await vscode.window.showInputBox({
@@ -599,33 +514,10 @@ export function activate(context: vscode.ExtensionContext) {
         
         if (result !== undefined) {  // Only update if not cancelled
             if (result) {
-                // Basic validation
-                if (!result.startsWith('sk-')) {
-                    vscode.window.showErrorMessage('Invalid API key format. OpenAI API keys should start with "sk-".');
-                    return;
-                }
-                
-                // Show validation in progress
-                vscode.window.withProgress({
-                    location: vscode.ProgressLocation.Notification,
-                    title: "Validating OpenAI API key...",
-                    cancellable: false
-                }, async (progress) => {
-                    const isValid = await validateApiKey(result);
-                    
-                    if (isValid) {
-                        // Save to settings
-                        await config.update('openaiApiKey', result, true);
-                        globalApiKey = result;
-                        openai = new OpenAI({ apiKey: result });
-                        vscode.window.showInformationMessage('OpenAI API key has been set and validated successfully.');
-                    }
-                });
+                await validateAndStoreApiKey(result);
             } else {
                 // Clear the API key if empty string was provided
-                await config.update('openaiApiKey', '', true);
-                globalApiKey = '';
-                openai = null;
+                await storeApiKey('');
                 vscode.window.showInformationMessage('OpenAI API key has been cleared.');
             }
         }
@@ -633,6 +525,59 @@ export function activate(context: vscode.ExtensionContext) {
     
     context.subscriptions.push(setApiKeyCommand);
 
+    // Register command to import the API key from an environment variable or a password manager
+    let importApiKeyCommand = vscode.commands.registerCommand('whisper-to-clipboard.importApiKey', async () => {
+        const options = [
+            { label: 'Environment Variable', description: 'Read the key from an environment variable such as OPENAI_API_KEY', target: 'env' },
+            { label: 'Helper Command', description: 'Run a password manager command such as "op read ..." or "pass show ..."', target: 'command' }
+        ];
+        
+        const selected = await vscode.window.showQuickPick(options, {
+            placeHolder: 'Where should the OpenAI API key be read from?',
+            canPickMany: false
+        });
+        
+        if (!selected) {
+            return;
+        }
+        
+        let importedKey: string | undefined;
+        if (selected.target === 'env') {
+            const variableName = await vscode.window.showInputBox({
+                prompt: 'Enter the name of the environment variable that holds your API key',
+                value: 'OPENAI_API_KEY'
+            });
+            if (!variableName) {
+                return;
+            }
+            
+            importedKey = readApiKeyFromEnvironment(variableName);
+            if (!importedKey) {
+                vscode.window.showErrorMessage(`Environment variable ${variableName} is not set in the editor's environment.`);
+                return;
+            }
+        } else {
+            const helperCommand = await vscode.window.showInputBox({
+                prompt: 'Enter a command that prints your API key (e.g. op read op://Private/OpenAI/credential)',
+                placeHolder: 'pass show openai/api-key'
+            });
+            if (!helperCommand) {
+                return;
+            }
+            
+            try {
+                importedKey = await readApiKeyFromHelperCommand(helperCommand);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Could not read API key: ${error instanceof Error ? error.message : String(error)}`);
+                return;
+            }
+        }
+        
+        await validateAndStoreApiKey(importedKey);
+    });
+    
+    context.subscriptions.push(importApiKeyCommand);
+
     // Register command to set recording duration
     let setRecordingDurationCommand = vscode.commands.registerCommand('whisper-to-clipboard.setRecordingDuration', async () => {
         const currentDuration = getRecordingDuration();
@@ -692,19 +637,7 @@ export function activate(context: vscode.ExtensionContext) {
     // Register command to set language mode
     let setLanguageModeCommand = vscode.commands.registerCommand('whisper-to-clipboard.setLanguageMode', async () => {
         const currentMode = vscode.workspace.getConfiguration('whisperToClipboard').get('languageMode', 'auto');
-        const options = [
-            { label: 'Auto-detect language', description: 'Let Whisper automatically detect the language', target: 'auto' },
-            { label: 'English', description: 'Force English transcription', target: 'en' },
-            { label: 'German (Deutsch)', description: 'Force German transcription', target: 'de' },
-            { label: 'French (Français)', description: 'Force French transcription', target: 'fr' },
-            { label: 'Spanish (Español)', description: 'Force Spanish transcription', target: 'es' },
-            { label: 'Italian (Italiano)', description: 'Force Italian transcription', target: 'it' },
-            { label: 'Portuguese (Português)', description: 'Force Portuguese transcription', target: 'pt' },
-            { label: 'Dutch (Nederlands)', description: 'Force Dutch transcription', target: 'nl' },
-            { label: 'Japanese (日本語)', description: 'Force Japanese transcription', target: 'ja' },
-            { label: 'Chinese (中文)', description: 'Force Chinese transcription', target: 'zh' },
-            { label: 'Russian (Русский)', description: 'Force Russian transcription', target: 'ru' }
-        ];
+        const options = LANGUAGE_OPTIONS;
         
         const selected = await vscode.window.showQuickPick(options, {
             placeHolder: 'Select language mode for transcription',
@@ -727,6 +660,73 @@ export function activate(context: vscode.ExtensionContext) {
     
     context.subscriptions.push(setLanguageModeCommand);
 
+    // Register command to set the recording backend
+    let setRecorderBackendCommand = vscode.commands.registerCommand('whisper-to-clipboard.setRecorderBackend', async () => {
+        const installed = await detectAvailableBackends();
+        const options = [
+            { label: 'Auto-detect', description: installed.length > 0 ? `Currently: ${getBackendLabel(installed[0])}` : 'No recording tool found', target: 'auto' },
+            ...getPlatformBackends().map(backend => ({
+                label: getBackendLabel(backend),
+                description: installed.includes(backend) ? 'Installed' : 'Not found',
+                target: backend as string
+            }))
+        ];
+        
+        const selected = await vscode.window.showQuickPick(options, {
+            placeHolder: 'Select the tool used to record from the microphone',
+            canPickMany: false
+        });
+        
+        if (selected) {
+            await vscode.workspace.getConfiguration('whisperToClipboard').update('recorderBackend', selected.target, true);
+            vscode.window.showInformationMessage(`Recording backend set to ${selected.label}`);
+        }
+    });
+    
+    context.subscriptions.push(setRecorderBackendCommand);
+
+    // Register command to select the microphone / input device
+    let selectInputDeviceCommand = vscode.commands.registerCommand('whisper-to-clipboard.selectInputDevice', async () => {
+        const backend = await resolveRecorderBackend();
+        if (!isRecorderBackend(backend)) {
+            vscode.window.showErrorMessage(backend);
+            return;
+        }
+        
+        const currentDevice = getInputDevice().id;
+        const devices = await listInputDevices(backend);
+        const options = [
+            { label: 'System default', description: 'Use the default input device of your system', target: '' },
+            ...devices.map(device => ({
+                label: device.label,
+                description: device.id === currentDevice ? `${device.id} (current)` : device.id,
+                target: device.id
+            }))
+        ];
+        
+        const selected = await vscode.window.showQuickPick(options, {
+            placeHolder: devices.length > 0
+                ? `Select the input device to record from (${getBackendLabel(backend)})`
+                : `No input devices found for ${getBackendLabel(backend)}`,
+            canPickMany: false
+        });
+        
+        if (selected) {
+            await vscode.workspace.getConfiguration('whisperToClipboard').update('inputDevice', selected.target, true);
+            vscode.window.showInformationMessage(`Input device set to ${selected.label}`);
+            
+            // Update the webview if it exists
+            if (chatButton) {
+                chatButton.webview.postMessage({ 
+                    command: 'updateInputDevice', 
+                    device: getInputDevice().description 
+                });
+            }
+        }
+    });
+    
+    context.subscriptions.push(selectInputDeviceCommand);
+
     // Register a command to open chat window
     let openChatCommand = vscode.commands.registerCommand('whisper-to-clipboard.openChat', async () => {
         const success = await tryOpenChatWindow();
@@ -737,19 +737,99 @@ export function activate(context: vscode.ExtensionContext) {
     
     context.subscriptions.push(openChatCommand);
 
+    // Push-to-talk: separate commands to start and stop, for bindings that use the isRecording context key.
+    // Starting takes a moment, so a stop that arrives early waits for the recording to have started.
+    context.subscriptions.push(
+        vscode.commands.registerCommand('whisper-to-clipboard.startRecording', async (args?: { targets?: unknown, translate?: unknown, live?: unknown, command?: unknown }) => {
+            if (isRecording || pendingStart) {
+                return;
+            }
+            pendingStart = startRecording(getOutputTargets(args?.targets), {
+                translate: args?.translate === true,
+                live: args?.live === true,
+                command: args?.command === true
+            });
+            try {
+                await pendingStart;
+            } finally {
+                pendingStart = null;
+            }
+        }),
+        vscode.commands.registerCommand('whisper-to-clipboard.stopRecording', async (args?: { targets?: unknown }) => {
+            if (pendingStart) {
+                await pendingStart;
+            }
+            // A paused recording has no running recorder but can still be finished
+            if (!recorder && !isPaused) {
+                return;
+            }
+            await stopRecording(args?.targets !== undefined ? getOutputTargets(args.targets) : undefined);
+        })
+    );
+
+    // Register commands to pause and resume; the segments are joined when the recording is stopped
+    context.subscriptions.push(
+        vscode.commands.registerCommand('whisper-to-clipboard.pauseRecording', async () => {
+            await pauseRecording();
+        }),
+        vscode.commands.registerCommand('whisper-to-clipboard.resumeRecording', async () => {
+            await resumeRecording();
+        })
+    );
+
+    // Register command to discard the recording or abort the transcription
+    context.subscriptions.push(
+        vscode.commands.registerCommand('whisper-to-clipboard.cancel', async () => {
+            await cancel();
+        })
+    );
+
     // Register a single command to toggle recording (start/stop)
-    let toggleRecordingCommand = vscode.commands.registerCommand('whisper-to-clipboard.toggleRecording', async () => {
+    // A keybinding can pass { "targets": [...] } to send the transcript somewhere other than the configured targets,
+    // { "translate": true } to translate the recording into English, { "live": true } for live dictation,
+    // and { "command": true } to run the voice command that was spoken
+    let toggleRecordingCommand = vscode.commands.registerCommand('whisper-to-clipboard.toggleRecording', async (args?: { targets?: unknown, translate?: unknown, live?: unknown, command?: unknown }) => {
         if (isRecording) {
             // If already recording, stop recording
-            await stopRecording();
+            await stopRecording(args?.targets !== undefined ? getOutputTargets(args.targets) : undefined);
         } else {
             // If not recording, start recording
-            await startRecording();
+            await startRecording(getOutputTargets(args?.targets), {
+                translate: args?.translate === true,
+                live: args?.live === true,
+                command: args?.command === true
+            });
         }
     });
     
     context.subscriptions.push(toggleRecordingCommand);
     
+    // Register a command to toggle a recording that is translated into English
+    context.subscriptions.push(
+        vscode.commands.registerCommand('whisper-to-clipboard.toggleTranslation', async (args?: { targets?: unknown }) => {
+            await vscode.commands.executeCommand('whisper-to-clipboard.toggleRecording', { ...args, translate: true });
+        })
+    );
+    
+    // Register a command to toggle a recording that is previewed as ghost text and inserted at the cursor
+    context.subscriptions.push(
+        vscode.commands.registerCommand('whisper-to-clipboard.toggleLiveDictation', async () => {
+            await vscode.commands.executeCommand('whisper-to-clipboard.toggleRecording', { live: true });
+        })
+    );
+    
+    // Register a command to toggle a recording that runs the VS Code command that was spoken;
+    // a transcript that matches no voice command is delivered to the output targets
+    context.subscriptions.push(
+        vscode.commands.registerCommand('whisper-to-clipboard.toggleVoiceCommand', async (args?: { targets?: unknown }) => {
+            await vscode.commands.executeCommand('whisper-to-clipboard.toggleRecording', { ...args, command: true });
+        }),
+        // Run by the "go to line {number}" voice command; VS Code has no command that takes a line number
+        vscode.commands.registerCommand('whisper-to-clipboard.goToLine', (line: number) => {
+            goToLine(line);
+        })
+    );
+    
     // Register command to show chat button
     context.subscriptions.push(
         vscode.commands.registerCommand('whisper-to-clipboard.showChatButton', () => {
@@ -757,107 +837,486 @@ export function activate(context: vscode.ExtensionContext) {
         })
     );
 
-    // Function to start recording
-    async function startRecording() {
-        try {
-            // Check if API key is set
-            const apiKey = await getApiKey();
-            if (!apiKey) {
-                return; // getApiKey will show appropriate error message
-            }
-            
-            // Initialize OpenAI client if needed
-            if (!openai) {
-                openai = new OpenAI({ apiKey });
-            }
+    // Keep past transcripts in the extension's storage and show them in the panel
+    history = new TranscriptionHistory(context.globalStorageUri);
+    context.subscriptions.push(
+        history,
+        vscode.window.registerTreeDataProvider('whisper-to-clipboard.history', new HistoryTreeProvider(history))
+    );
 
-            // Create a temporary file path for the recording
-            const tempDir = os.tmpdir();
-            tempFilePath = path.join(tempDir, `voice-recording-${Date.now()}.wav`);
-            
-            // Get the configured recording duration
-            const recordingDuration = getRecordingDuration();
-            
-            // Get the configured audio quality
-            const audioQuality = getAudioQuality();
-            
-            // Start recording using the appropriate command based on the OS
-            const platform = os.platform();
-            
-            if (platform === 'darwin') {
-                // macOS - use sox with improved settings for better audio quality
-                recordingProcess = child_process.spawn('rec', [
-                    tempFilePath,
-                    'rate', audioQuality.sampleRate, // Use configured sample rate
-                    'channels', '1',
-                    'trim', '0', recordingDuration.toString() // Use configured duration
-                ]);
-            } else if (platform === 'win32') {
-                // Windows - not yet implemented
-                vscode.window.showErrorMessage('Windows recording is not yet implemented. Please install sox for Windows and try again.');
+    context.subscriptions.push(
+        vscode.commands.registerCommand('whisper-to-clipboard.copyHistoryEntry', async (entry: HistoryEntry) => {
+            await vscode.env.clipboard.writeText(entry.text);
+            vscode.window.setStatusBarMessage('Transcript copied to clipboard', 3000);
+        }),
+        vscode.commands.registerCommand('whisper-to-clipboard.copyRawHistoryEntry', async (entry: HistoryEntry) => {
+            await vscode.env.clipboard.writeText(entry.rawText ?? entry.text);
+            vscode.window.setStatusBarMessage('Raw transcript copied to clipboard', 3000);
+        }),
+        vscode.commands.registerCommand('whisper-to-clipboard.copyOriginalHistoryEntry', async (entry: HistoryEntry) => {
+            await vscode.env.clipboard.writeText(entry.originalText ?? entry.text);
+            vscode.window.setStatusBarMessage('Original transcript copied to clipboard', 3000);
+        }),
+        vscode.commands.registerCommand('whisper-to-clipboard.insertHistoryEntry', async (entry: HistoryEntry) => {
+            await deliverTranscript(entry.text, ['insert']);
+        }),
+        vscode.commands.registerCommand('whisper-to-clipboard.openHistoryEntry', async (entry: HistoryEntry) => {
+            const document = await vscode.workspace.openTextDocument({ content: entry.text, language: 'plaintext' });
+            await vscode.window.showTextDocument(document, { preview: true });
+        }),
+        vscode.commands.registerCommand('whisper-to-clipboard.deleteHistoryEntry', (entry: HistoryEntry) => {
+            history?.remove(entry.id);
+        }),
+        vscode.commands.registerCommand('whisper-to-clipboard.clearHistory', async () => {
+            const choice = await vscode.window.showWarningMessage(
+                'Delete all transcripts and saved recordings from the history?',
+                { modal: true },
+                'Delete All'
+            );
+            if (choice === 'Delete All') {
+                history?.clear();
+            }
+        }),
+        vscode.commands.registerCommand('whisper-to-clipboard.retranscribeHistoryEntry', async (entry: HistoryEntry) => {
+            await retranscribeHistoryEntry(entry);
+        })
+    );
+
+    // Function to transcribe a recording saved in the history again, e.g. with another language or provider
+    async function retranscribeHistoryEntry(entry: HistoryEntry) {
+        const audioPath = history?.getAudioPath(entry);
+        if (!audioPath) {
+            vscode.window.showWarningMessage('The recording of this transcript was not saved.');
+            return;
+        }
+        
+        const selected = await vscode.window.showQuickPick(
+            LANGUAGE_OPTIONS.map(option => ({
+                ...option,
+                picked: option.target === (entry.language ?? 'auto')
+            })),
+            { placeHolder: 'Select the language to transcribe the recording with' }
+        );
+        if (!selected) {
+            return;
+        }
+        const languageMode = {
+            code: selected.target === 'auto' ? null : selected.target,
+            description: selected.label
+        };
+        
+        // Uses the currently configured provider, so changing it first transcribes with another backend
+        const provider = await getTranscriptionProvider();
+        if (!provider) {
+            return;
+        }
+        
+        const workFile = copyToTempWorkFile(audioPath, 'voice-retranscribe');
+        
+        try {
+            vscode.window.setStatusBarMessage('Transcribing audio...', 10000);
+            // A translated entry is translated again
+            const translate = entry.originalText !== undefined;
+            await runCancellable(signal => transcribeAndDeliver(workFile, provider, languageMode, [workFile], ['clipboard'], translate, signal));
+        } catch (error: any) {
+            console.error('Error transcribing history entry:', error);
+            if (!(error instanceof TranscriptionCancelledError)) {
+                vscode.window.showErrorMessage(`Transcription failed: ${error.message}`);
+            }
+            cleanupTempFiles([workFile]);
+        }
+    }
+
+    // Function to open the segment timings of a history entry as a new document
+    async function exportTimestampedTranscript(entry: HistoryEntry) {
+        if (!entry.segments) {
+            vscode.window.showWarningMessage('This transcript was saved without timestamps.');
+            return;
+        }
+        
+        const selected = await vscode.window.showQuickPick(
+            TRANSCRIPT_FORMATS.map(option => ({ label: option.label, description: option.description, option })),
+            { placeHolder: 'Select the format of the timestamped transcript' }
+        );
+        if (!selected) {
+            return;
+        }
+        
+        const content = formatTranscript(entry.segments, selected.option.format);
+        const document = await vscode.workspace.openTextDocument({ content, language: selected.option.language });
+        await vscode.window.showTextDocument(document);
+    }
+    
+    // Function to transcribe an audio or video file and send the transcript to the output targets
+    async function transcribeFile(uri?: vscode.Uri) {
+        if (!uri) {
+            const picked = await vscode.window.showOpenDialog({
+                canSelectMany: false,
+                openLabel: 'Transcribe',
+                filters: { 'Audio and video files': MEDIA_EXTENSIONS }
+            });
+            if (!picked || picked.length === 0) {
                 return;
-            } else if (platform === 'linux') {
-                // Linux - use arecord with improved settings
-                recordingProcess = child_process.spawn('arecord', [
-                    '-f', 'S16_LE',
-                    '-c', '1',
-                    '-r', audioQuality.sampleRate, // Use configured sample rate
-                    '-d', recordingDuration.toString(), // Use configured duration
-                    tempFilePath
-                ]);
-            } else {
-                throw new Error(`Unsupported platform: ${platform}`);
             }
-            
-            // Handle recording process events
-            recordingProcess.on('error', (err) => {
-                vscode.window.showErrorMessage(`Recording failed to start: ${err.message}`);
-                updateRecordingState(false);
-                statusBarItem.text = "$(unmute) Voice: Error";
-                recordButton.text = "$(record) Start Recording";
+            uri = picked[0];
+        }
+        const inputFile = uri.fsPath;
+        const name = path.basename(inputFile);
+        
+        const provider = await getTranscriptionProvider();
+        if (!provider) {
+            return; // getTranscriptionProvider will show appropriate error message
+        }
+        const languageMode = getLanguageMode();
+        
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Transcribing ${name}`,
+            cancellable: true
+        }, (progress, token) => runCancellable(async signal => {
+            let workFile: string | undefined;
+            try {
+                // The audio is extracted into the temp folder, where the chunk and upload files end up too
+                if (await isFFmpegInstalled()) {
+                    progress.report({ message: 'Extracting audio...' });
+                    workFile = path.join(os.tmpdir(), `voice-file-${Date.now()}.wav`);
+                    await extractAudio(inputFile, workFile, signal);
+                } else {
+                    // Without FFmpeg the file is sent as it is, which works for the formats the Whisper API accepts
+                    workFile = copyToTempWorkFile(inputFile, 'voice-file');
+                }
                 
-                // Update chat button if it exists
-                if (chatButton) {
-                    chatButton.webview.postMessage({ command: 'updateRecordingState', isRecording: false });
+                progress.report({ message: 'Transcribing...' });
+                await transcribeAndDeliver(workFile, provider, languageMode, [workFile], getOutputTargets(), false, signal);
+            } catch (error: any) {
+                if (workFile) {
+                    cleanupTempFiles([workFile]);
                 }
-            });
+                if (signal.aborted) {
+                    vscode.window.setStatusBarMessage('Transcription cancelled', 3000);
+                    return;
+                }
+                console.error(`Error transcribing ${inputFile}:`, error);
+                vscode.window.showErrorMessage(`Transcribing ${name} failed: ${error.message}`);
+            }
+        }, token));
+    }
+    
+    context.subscriptions.push(
+        vscode.commands.registerCommand('whisper-to-clipboard.transcribeFile', async (uri?: vscode.Uri) => {
+            await transcribeFile(uri instanceof vscode.Uri ? uri : undefined);
+        })
+    );
+    
+    context.subscriptions.push(
+        vscode.commands.registerCommand('whisper-to-clipboard.exportHistoryEntryTimestamped', async (entry: HistoryEntry) => {
+            await exportTimestampedTranscript(entry);
+        }),
+        vscode.commands.registerCommand('whisper-to-clipboard.exportTimestamped', async () => {
+            const entries = (history?.getEntries() ?? []).filter(entry => entry.segments);
+            if (entries.length === 0) {
+                vscode.window.showInformationMessage('There are no transcripts with timestamps in the history yet.');
+                return;
+            }
             
-            // Add stdout and stderr handlers for better debugging
-            recordingProcess.stdout?.on('data', (data) => {
-                console.log(`Recording stdout: ${data}`);
-            });
+            const selected = await vscode.window.showQuickPick(
+                entries.map(entry => ({
+                    label: entry.text.trim().split('\n')[0].substring(0, 80),
+                    description: new Date(entry.timestamp).toLocaleString(),
+                    entry
+                })),
+                { placeHolder: 'Select the transcript to export with timestamps' }
+            );
+            if (selected) {
+                await exportTimestampedTranscript(selected.entry);
+            }
+        })
+    );
+
+    // Keep recordings whose transcription failed, so they can be sent again later
+    failedRecordings = new FailedRecordingQueue(context.globalStorageUri);
+    context.subscriptions.push(
+        vscode.commands.registerCommand('whisper-to-clipboard.retryFailed', async () => {
+            await retryFailedRecordings();
+        })
+    );
+    if (failedRecordings.getPending().length > 0) {
+        const count = failedRecordings.getPending().length;
+        vscode.window.showInformationMessage(
+            `${count} recording${count === 1 ? ' is' : 's are'} waiting to be transcribed.`,
+            'Retry Now'
+        ).then(choice => {
+            if (choice === 'Retry Now') {
+                retryFailedRecordings();
+            }
+        });
+    }
+
+    // Function to start recording; with live, the recording is transcribed while it is captured and shown as ghost text,
+    // with command, the transcript is matched against the voice commands first
+    async function startRecording(
+        targets: OutputTarget[] = getOutputTargets(),
+        options: { translate?: boolean, live?: boolean, command?: boolean } = {}
+    ) {
+        try {
+            // Check that the transcription provider is usable (API key or local model)
+            const provider = await getTranscriptionProvider();
+            if (!provider) {
+                return; // getTranscriptionProvider will show appropriate error message
+            }
             
-            recordingProcess.stderr?.on('data', (data) => {
-                console.log(`Recording stderr: ${data}`);
-            });
+            const editor = vscode.window.activeTextEditor;
+            if (options.live && !editor) {
+                vscode.window.showWarningMessage('Live dictation needs an active editor to show the transcript in.');
+                return;
+            }
+
+            // A new recording starts without segments from an earlier one
+            cleanupTempFiles(recordingSegments);
+            recordingSegments = [];
+            recordedSeconds = 0;
+            setPaused(false);
+            recordingTargets = targets;
+            recordingTranslates = options.translate === true;
+            recordingIsCommand = options.command === true;
             
-            // Update status
-            updateRecordingState(true);
-            statusBarItem.text = "$(record) Voice: Recording...";
-            recordButton.text = "$(debug-stop) Stop Recording";
+            // Get the configured audio quality; all segments of the recording use the same one
+            const audioQuality = getAudioQuality();
+            recordingSampleRate = audioQuality.sampleRate;
             
-            // Update chat button if it exists
-            if (chatButton) {
-                chatButton.webview.postMessage({ command: 'updateRecordingState', isRecording: true });
-            }
+            liveDictation?.dispose();
+            liveDictation = options.live && editor
+                ? new LiveDictation(editor, provider, getLanguageMode().code, parseInt(recordingSampleRate, 10))
+                : null;
             
-            vscode.window.showInformationMessage(`Recording started (max ${recordingDuration}s, ${audioQuality.description} quality). Speak clearly into your microphone.`);
+            if (await startSegment()) {
+                vscode.window.showInformationMessage(`Recording started (max ${getRecordingDuration()}s, ${audioQuality.description} quality). Speak clearly into your microphone.`);
+            }
             
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to start recording: ${error instanceof Error ? error.message : String(error)}`);
+            liveDictation?.dispose();
+            liveDictation = null;
             updateRecordingState(false);
+            stopCountdown();
             statusBarItem.text = "$(unmute) Voice: Error";
         }
     }
 
+    // Function to record a new segment, for a new recording or when a paused one is resumed
+    async function startSegment(): Promise<boolean> {
+        // Create a temporary file path for the segment
+        const tempDir = os.tmpdir();
+        tempFilePath = path.join(tempDir, `voice-recording-${Date.now()}.wav`);
+        
+        // Get the configured recording duration; earlier segments count towards it
+        const recordingDuration = getRecordingDuration();
+        const remainingSeconds = Math.max(1, Math.ceil(recordingDuration - recordedSeconds));
+        
+        // Pick the recording backend (configured or auto-detected)
+        const newRecorder = await createRecorder();
+        if (typeof newRecorder === 'string') {
+            vscode.window.showErrorMessage(newRecorder);
+            return false;
+        }
+        
+        // Handle recorder events
+        newRecorder.onDidError((err) => {
+            recorder = null;
+            segmentStartedAt = 0;
+            stopCountdown();
+            stopSilenceMonitor();
+            
+            // Keep what was recorded before a failed resume, it can still be transcribed
+            if (recordingSegments.length > 0) {
+                vscode.window.showErrorMessage(`Recording failed to resume: ${err.message}`);
+                setPaused(true);
+                updateStatusBarItem();
+                return;
+            }
+            
+            vscode.window.showErrorMessage(`Recording failed to start: ${err.message}`);
+            liveDictation?.dispose();
+            liveDictation = null;
+            updateRecordingState(false);
+            statusBarItem.text = "$(unmute) Voice: Error";
+            recordButton.text = "$(record) Start Recording";
+            
+            // Update chat button if it exists
+            if (chatButton) {
+                chatButton.webview.postMessage({ command: 'updateRecordingState', isRecording: false });
+            }
+        });
+        
+        newRecorder.onDidExit((exit) => {
+            if (exit.stoppedByUser || recorder !== newRecorder) {
+                return;
+            }
+            
+            // The tool stopped by itself, usually because the maximum duration was reached.
+            // Transcribe what was captured just like a manual stop.
+            console.log(`Recording process exited on its own with code ${exit.code}`);
+            if (exit.code === 0) {
+                vscode.window.showInformationMessage(`Maximum recording duration of ${recordingDuration}s reached. Transcribing...`);
+            } else {
+                vscode.window.showWarningMessage(`Recording stopped unexpectedly (exit code ${exit.code}). Transcribing what was captured...`);
+            }
+            stopRecording();
+        });
+        
+        // Live dictation reads the audio as it is captured
+        const dictation = liveDictation;
+        if (dictation) {
+            newRecorder.onDidReceiveAudio(data => dictation.push(data));
+        }
+        
+        newRecorder.start({
+            outputFile: tempFilePath,
+            sampleRate: recordingSampleRate,
+            maxDurationSeconds: remainingSeconds,
+            device: getInputDevice().id,
+            stream: dictation !== null
+        });
+        recorder = newRecorder;
+        segmentStartedAt = Date.now();
+        console.log(`Recording with ${getBackendLabel(newRecorder.backend)}`);
+        
+        // Stop automatically after a stretch of silence if voice-activity detection is on
+        const vad = getVadSettings();
+        if (vad.enabled) {
+            const monitor = new SilenceMonitor(tempFilePath, vad);
+            monitor.onDidDetectSilence(() => {
+                if (recorder === newRecorder) {
+                    vscode.window.setStatusBarMessage(`No speech for ${vad.silenceSeconds}s, stopping recording...`, 5000);
+                    stopRecording();
+                }
+            });
+            monitor.start();
+            silenceMonitor = monitor;
+        }
+        
+        // Update status
+        updateRecordingState(true);
+        startCountdown(remainingSeconds);
+        recordButton.text = "$(debug-stop) Stop Recording";
+        
+        // Update chat button if it exists
+        if (chatButton) {
+            chatButton.webview.postMessage({ command: 'updateRecordingState', isRecording: true });
+        }
+        return true;
+    }
+
+    // Helper function to add a finished segment to the recording, dropping it if it holds no audio
+    function finishSegment(file: string) {
+        segmentStartedAt = 0;
+        const wav = fs.existsSync(file) ? checkAndRepairWav(file) : null;
+        if (!wav || wav.info.dataLength === 0) {
+            cleanupTempFiles([file]);
+            return;
+        }
+        if (wav.repaired) {
+            console.log('Recording had an incomplete WAV header, repaired it before transcription');
+        }
+        recordingSegments.push(file);
+        recordedSeconds += wav.info.durationSeconds;
+    }
+
+    // Function to pause the recording; the segment recorded so far is kept
+    async function pauseRecording() {
+        if (pendingStart) {
+            await pendingStart;
+        }
+        if (!recorder || isPaused) {
+            return;
+        }
+        
+        const activeRecorder = recorder;
+        recorder = null;
+        setPaused(true);
+        stopCountdown();
+        stopSilenceMonitor();
+        
+        // Stop, resume and cancel wait for the segment to be finished
+        pendingPause = (async () => {
+            try {
+                await activeRecorder.stop();
+                finishSegment(tempFilePath);
+            } catch (error) {
+                console.error('Error pausing recording:', error);
+            }
+        })();
+        await pendingPause;
+        pendingPause = null;
+        updateStatusBarItem();
+    }
+
+    // Function to continue a paused recording in a new segment
+    async function resumeRecording() {
+        if (pendingPause) {
+            await pendingPause;
+        }
+        if (!isPaused) {
+            return;
+        }
+        
+        setPaused(false);
+        try {
+            if (!(await startSegment())) {
+                setPaused(true);
+            }
+        } catch (error) {
+            setPaused(true);
+            vscode.window.showErrorMessage(`Failed to resume recording: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        updateStatusBarItem();
+    }
+
+    // Helper function to set the paused state and its context key
+    function setPaused(paused: boolean) {
+        isPaused = paused;
+        vscode.commands.executeCommand('setContext', 'isRecordingPaused', paused);
+    }
+
+    // Helper function to show the remaining recording time in the status bar
+    function startCountdown(durationSeconds: number) {
+        stopCountdown();
+        recordingDeadline = Date.now() + durationSeconds * 1000;
+        updateStatusBarItem();
+        countdownTimer = setInterval(updateStatusBarItem, 1000);
+    }
+
+    function stopSilenceMonitor() {
+        if (silenceMonitor) {
+            silenceMonitor.dispose();
+            silenceMonitor = null;
+        }
+    }
+
+    function stopCountdown() {
+        if (countdownTimer) {
+            clearInterval(countdownTimer);
+            countdownTimer = null;
+        }
+        recordingDeadline = 0;
+    }
+
     // Helper function to update status bar item
     function updateStatusBarItem() {
         if (!statusBarItem) {
             return;
         }
         
-        if (isRecording) {
-            statusBarItem.text = "$(record) Voice: Recording...";
+        // Total time across all segments of the recording
+        const recorded = recordedSeconds + (segmentStartedAt ? (Date.now() - segmentStartedAt) / 1000 : 0);
+        
+        if (isRecording && isPaused) {
+            statusBarItem.text = `$(debug-pause) Voice: Paused, ${formatDuration(recorded)} recorded`;
+            statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+        } else if (isRecording) {
+            statusBarItem.text = recordingDeadline
+                ? `$(record) Voice: Recording... ${formatDuration(recorded)} recorded, ${formatDuration((recordingDeadline - Date.now()) / 1000)} left`
+                : "$(record) Voice: Recording...";
             statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
         } else {
             statusBarItem.text = "$(unmute) Voice: Ready";
@@ -869,116 +1328,593 @@ export function activate(context: vscode.ExtensionContext) {
             recordButton.text = isRecording ? "$(debug-stop) Stop Recording" : "$(record) Start Recording";
         }
         
+        // Offer to pause or resume while recording
+        if (pauseButton) {
+            pauseButton.text = isPaused ? "$(debug-continue) Resume" : "$(debug-pause) Pause";
+            pauseButton.command = isPaused ? "whisper-to-clipboard.resumeRecording" : "whisper-to-clipboard.pauseRecording";
+            if (isRecording) {
+                pauseButton.show();
+            } else {
+                pauseButton.hide();
+            }
+        }
+        
+        // Offer to cancel while recording or transcribing
+        const canCancel = isRecording || activeTranscriptions.size > 0;
+        const cancelLabel = isRecording ? 'Discard Recording' : 'Cancel Transcription';
+        if (cancelButton) {
+            cancelButton.tooltip = isRecording ? 'Discard the recording without transcribing it' : 'Abort the transcription';
+            if (canCancel) {
+                cancelButton.show();
+            } else {
+                cancelButton.hide();
+            }
+        }
+        
         // Update chat button if it exists
         if (chatButton) {
             chatButton.webview.postMessage({ command: 'updateRecordingState', isRecording });
+            chatButton.webview.postMessage({ command: 'updateCancelState', canCancel, label: cancelLabel });
+            chatButton.webview.postMessage({ command: 'updatePauseState', isRecording, isPaused, recorded: formatDuration(recorded) });
         }
     }
 
-    async function stopRecording() {
-        if (!recordingProcess) {
-            vscode.window.showInformationMessage('No recording in progress.');
-            return;
-        }
-
+    // Function to run a transcription that the cancel command, or the token of a progress notification, can abort
+    async function runCancellable<T>(operation: (signal: AbortSignal) => Promise<T>, token?: vscode.CancellationToken): Promise<T> {
+        const cancellation = new AbortController();
+        const tokenListener = token?.onCancellationRequested(() => cancellation.abort());
+        activeTranscriptions.add(cancellation);
+        updateStatusBarItem();
         try {
-            // Stop the recording process
-            recordingProcess.kill();
-            recordingProcess = null;
-            
-            // Update status
-            isRecording = false;
+            return await operation(cancellation.signal);
+        } finally {
+            tokenListener?.dispose();
+            activeTranscriptions.delete(cancellation);
             updateStatusBarItem();
+        }
+    }
+
+    // Function to discard the recording without uploading it, or abort running transcriptions
+    async function cancel() {
+        if (pendingStart) {
+            await pendingStart;
+        }
+        
+        if (pendingPause) {
+            await pendingPause;
+        }
+        
+        if (recorder || isPaused) {
+            const activeRecorder = recorder;
+            const recordingFile = tempFilePath;
+            recorder = null;
             
-            // Wait a moment for the file to be properly saved
-            await new Promise(resolve => setTimeout(resolve, 1000));
-            
-            // Check if the audio file exists and has content
-            if (!fs.existsSync(tempFilePath) || fs.statSync(tempFilePath).size === 0) {
-                vscode.window.showErrorMessage('Recording failed: No audio data captured.');
-                return;
+            stopCountdown();
+            stopSilenceMonitor();
+            if (activeRecorder) {
+                try {
+                    await activeRecorder.stop();
+                } catch (error) {
+                    console.error('Error stopping recording:', error);
+                }
+                cleanupTempFiles([recordingFile]);
             }
             
-            // Show transcription in progress message
-            vscode.window.setStatusBarMessage('Transcribing audio...', 10000);
+            // Discard the segments recorded before a pause as well
+            cleanupTempFiles(recordingSegments);
+            recordingSegments = [];
+            recordedSeconds = 0;
+            segmentStartedAt = 0;
+            setPaused(false);
+            liveDictation?.dispose();
+            liveDictation = null;
             
-            // Get the OpenAI API key
-            const apiKey = await getApiKey();
-            if (!apiKey) {
-                return; // getApiKey will show appropriate error message
+            updateRecordingState(false);
+            updateStatusBarItem();
+            vscode.window.showInformationMessage('Recording discarded.');
+            return;
+        }
+        
+        if (activeTranscriptions.size > 0) {
+            // Aborting rejects the running requests; their callers clean up chunk and temp files
+            for (const cancellation of activeTranscriptions) {
+                cancellation.abort();
             }
-            
-            // Create OpenAI client
-            const openaiClient = new OpenAI({
-                apiKey: apiKey
-            });
-            
-            // Get language mode setting
-            const languageMode = getLanguageMode();
-            
+            vscode.window.showInformationMessage('Transcription cancelled.');
+            return;
+        }
+        
+        vscode.window.showInformationMessage('Nothing to cancel.');
+    }
+
+    async function stopRecording(targets: OutputTarget[] = recordingTargets) {
+        if (pendingPause) {
+            await pendingPause;
+        }
+        if (!recorder && !isPaused) {
+            vscode.window.showInformationMessage('No recording in progress.');
+            return;
+        }
+
+        const activeRecorder = recorder;
+        const translate = recordingTranslates;
+        // Any recording can be a voice command if it starts with the wake phrase
+        const voiceCommands: VoiceCommandMode = recordingIsCommand ? 'always' : 'wakePhrase';
+        const dictation = liveDictation;
+        recorder = null;
+        liveDictation = null;
+        setPaused(false);
+
+        stopCountdown();
+        stopSilenceMonitor();
+
+        // Cancelling from here on aborts the transcription instead of discarding the recording
+        await runCancellable(async signal => {
             try {
-                // Check if the recording is long and needs to be split
-                const recordingDuration = getRecordingDuration();
-                let audioFiles: string[] = [tempFilePath];
+                // Stop the recorder and wait until it has finalized the file
+                if (activeRecorder) {
+                    statusBarItem.text = "$(loading~spin) Voice: Finishing recording...";
+                    await activeRecorder.stop();
+                    finishSegment(tempFilePath);
+                }
+                const segments = recordingSegments;
+                const durationSeconds = recordedSeconds;
+                recordingSegments = [];
+                recordedSeconds = 0;
                 
-                // For recordings longer than 60 seconds, try to split into chunks
-                if (recordingDuration > 60) {
-                    const hasFFmpeg = await isFFmpegInstalled();
-                    if (hasFFmpeg) {
-                        vscode.window.setStatusBarMessage('Processing long recording...', 5000);
-                        audioFiles = await splitAudioFile(tempFilePath);
-                        
-                        if (audioFiles.length > 1) {
-                            vscode.window.showInformationMessage(`Long recording detected. Processing in ${audioFiles.length} chunks for better accuracy.`);
-                        }
-                    } else {
-                        vscode.window.showWarningMessage('Long recording detected but FFmpeg not found. Transcription may be less accurate.');
-                    }
+                // Update status
+                updateRecordingState(false);
+                updateStatusBarItem();
+                
+                // Check that audio was captured
+                if (segments.length === 0) {
+                    vscode.window.showErrorMessage('Recording failed: No audio data captured.');
+                    return;
                 }
                 
-                // Transcribe the audio
-                const transcription = await transcribeAudio(audioFiles, openaiClient, languageMode);
+                // A paused recording consists of several segments that are transcribed as one
+                let recordingFile = segments[0];
+                if (segments.length > 1) {
+                    recordingFile = path.join(os.tmpdir(), `voice-recording-${Date.now()}-joined.wav`);
+                    concatenateWavFiles(segments, recordingFile);
+                    cleanupTempFiles(segments);
+                    console.log(`Joined ${segments.length} recording segments (${durationSeconds.toFixed(1)}s)`);
+                }
                 
-                if (!transcription || transcription.trim().length === 0) {
-                    vscode.window.showWarningMessage('No speech detected in the recording.');
+                // Very short recordings are usually accidental presses of a push-to-talk key
+                const minSeconds = getMinRecordingSeconds();
+                if (durationSeconds < minSeconds) {
+                    console.log(`Discarding ${durationSeconds.toFixed(2)}s recording, shorter than ${minSeconds}s`);
+                    vscode.window.setStatusBarMessage(`Recording shorter than ${minSeconds}s discarded`, 3000);
+                    cleanupTempFiles([recordingFile]);
                     return;
                 }
                 
-                // Copy to clipboard
-                await vscode.env.clipboard.writeText(transcription);
+                // Trim leading and trailing silence before upload if voice-activity detection is on
+                const vad = getVadSettings();
+                if (vad.enabled) {
+                    const trimmedSeconds = trimSilence(recordingFile, vad.thresholdDb);
+                    if (trimmedSeconds === null) {
+                        vscode.window.showWarningMessage('No speech detected in the recording.');
+                        cleanupTempFiles([recordingFile]);
+                        return;
+                    }
+                }
                 
-                // Show success message with first few words of transcription
-                const previewText = transcription.length > 30 
-                    ? transcription.substring(0, 30) + '...' 
-                    : transcription;
-                vscode.window.showInformationMessage(`Transcription copied to clipboard: "${previewText}"`);
+                // Show transcription in progress message
+                vscode.window.setStatusBarMessage('Transcribing audio...', 10000);
                 
-                // Clean up temporary files
-                cleanupTempFiles(audioFiles);
+                // Get language mode setting
+                const languageMode = getLanguageMode();
                 
-            } catch (error: any) {
-                console.error('Error during transcription:', error);
+                // Get the configured transcription provider
+                const provider = await getTranscriptionProvider();
+                if (!provider) {
+                    // getTranscriptionProvider showed why; keep the recording to transcribe once that is fixed
+                    try {
+                        if (failedRecordings?.add(recordingFile, languageMode, 'No transcription provider was available', translate)) {
+                            vscode.window.setStatusBarMessage('Recording kept, transcribe it later with "Retry Failed Transcriptions"', 10000);
+                        }
+                    } catch (queueError) {
+                        console.error('Could not keep the recording:', queueError);
+                    }
+                    cleanupTempFiles([recordingFile]);
+                    return;
+                }
+                
+                if (signal.aborted) {
+                    cleanupTempFiles([recordingFile]);
+                    return;
+                }
                 
-                // Save debug audio file if transcription failed
-                const homeDir = os.homedir();
-                const debugAudioFile = path.join(homeDir, 'whisper_debug_audio.wav');
                 try {
-                    fs.copyFileSync(tempFilePath, debugAudioFile);
-                    vscode.window.showErrorMessage(`Transcription failed: ${error.message}. Debug audio saved to ${debugAudioFile}`);
-                } catch (copyError) {
-                    vscode.window.showErrorMessage(`Transcription failed: ${error.message}. Could not save debug audio.`);
+                    // Live dictation inserts the transcript where its preview was shown
+                    const delivery = dictation ? (text: string) => dictation.finish(text) : targets;
+                    await transcribeAndDeliver(recordingFile, provider, languageMode, [recordingFile], delivery, translate, signal, voiceCommands);
+                } catch (error: any) {
+                    if (signal.aborted) {
+                        // Cancelled by the user, the recording is not kept
+                        cleanupTempFiles([recordingFile]);
+                        return;
+                    }
+                    console.error('Error during transcription:', error);
+                    reportFailedRecording(recordingFile, languageMode, translate, error);
+                }
+            } catch (error: any) {
+                console.error('Error stopping recording:', error);
+                vscode.window.showErrorMessage(`Error stopping recording: ${error.message}`);
+            } finally {
+                // Reset recording state
+                dictation?.dispose();
+                updateRecordingState(false);
+                updateStatusBarItem();
+            }
+        });
+    }
+
+    // Helper function to send a recording for transcription as-is, compressed or in chunks, depending on its size
+    async function transcribeRecording(
+        file: string,
+        provider: TranscriptionProvider,
+        languageMode: { code: string | null, description: string },
+        signal?: AbortSignal
+    ): Promise<{ outcome: TranscriptionOutcome, audioChunks: AudioChunk[], durationSeconds: number }> {
+        let audioChunks: AudioChunk[] = [{ file, startSeconds: 0, overlapSeconds: 0 }];
+        
+        try {
+            // Decide from the real file size and duration whether to send as-is, compress or split
+            const limits = getUploadLimits(provider.maxUploadBytes);
+            const plan = await planUpload(file, limits);
+            if (typeof plan === 'string') {
+                throw new Error(plan);
+            }
+            
+            const planDescription = describeUploadPlan(plan, provider instanceof OpenAITranscriptionProvider && !isCustomEndpoint());
+            console.log(planDescription);
+            if (plan.strategy === 'as-is') {
+                vscode.window.setStatusBarMessage(planDescription, 5000);
+            } else {
+                vscode.window.setStatusBarMessage('Preparing recording for upload...', 5000);
+                audioChunks = await prepareUpload(file, plan, getChunkOverlap(), getVadSettings().thresholdDb, signal);
+                
+                const chunkNote = audioChunks.length > 1 ? ` Processing in ${audioChunks.length} chunks.` : '';
+                vscode.window.showInformationMessage(`${planDescription}.${chunkNote}`);
+            }
+            
+            if (signal?.aborted) {
+                throw new TranscriptionCancelledError();
+            }
+            
+            // Segment timings of a recording sent in one piece end with the recording
+            if (audioChunks.length === 1 && audioChunks[0].endSeconds === undefined) {
+                audioChunks[0].endSeconds = plan.durationSeconds;
+            }
+            
+            const prompt = await buildVocabularyPrompt();
+            // Segment timings are kept in the history, so that transcripts can be exported with timestamps
+            const outcome = await transcribeAudio(audioChunks, provider, languageMode, { prompt, signal, segments: true });
+            return { outcome, audioChunks, durationSeconds: plan.durationSeconds };
+        } catch (error) {
+            cleanupTempFiles(audioChunks.map(chunk => chunk.file).filter(chunkFile => chunkFile !== file));
+            // FFmpeg killed by the signal rejects with an AbortError
+            throw signal?.aborted ? new TranscriptionCancelledError() : error;
+        }
+    }
+
+    // Helper function to transcribe a recording, send the result to the output targets and keep it in the history.
+    // With translate, the English translation is delivered and the transcript in the spoken language kept in the history.
+    // Instead of output targets, a function can deliver the text and describe what it did.
+    // With voiceCommands, a transcript that matches a voice command runs it instead of being delivered.
+    // Throws if nothing could be transcribed; temporaryFiles are deleted once they are no longer needed.
+    async function transcribeAndDeliver(
+        recordingFile: string,
+        provider: TranscriptionProvider,
+        languageMode: { code: string | null, description: string },
+        temporaryFiles: string[],
+        targets: TranscriptDelivery,
+        translate: boolean,
+        signal?: AbortSignal,
+        voiceCommands?: VoiceCommandMode
+    ) {
+        let transcribed: Awaited<ReturnType<typeof transcribeRecording>>;
+        try {
+            transcribed = await transcribeRecording(recordingFile, provider, languageMode, signal);
+        } catch (error) {
+            // A recording without speech isn't an error worth keeping the recording for
+            if (error instanceof NoSpeechError) {
+                vscode.window.showWarningMessage('No speech detected in the recording.');
+                cleanupTempFiles(temporaryFiles);
+                return;
+            }
+            throw error;
+        }
+        const { audioChunks, durationSeconds } = transcribed;
+        let outcome = transcribed.outcome;
+        // Apply the replacement rules and spoken commands, in the detected language if none was selected
+        let transcription = postProcessTranscript(outcome.text, languageMode.code ?? outcome.language ?? null);
+        const chunkFiles = audioChunks.map(chunk => chunk.file).filter(file => file !== recordingFile);
+        const recordingFiles = [...temporaryFiles, ...chunkFiles];
+        
+        if (!transcription || transcription.trim().length === 0) {
+            vscode.window.showWarningMessage('No speech detected in the recording.');
+            cleanupTempFiles(recordingFiles);
+            return;
+        }
+        
+        // Commands are matched against the transcript as spoken, before the spoken formatting commands
+        if (voiceCommands && await runVoiceCommand(outcome.text, voiceCommands)) {
+            cleanupTempFiles(recordingFiles);
+            return;
+        }
+        
+        let originalText: string | undefined;
+        let preset: RewritePreset | undefined;
+        let rewritten: string | undefined;
+        try {
+            if (translate) {
+                const translation = await translateRecording(outcome, transcription, audioChunks, provider, languageMode, signal);
+                if (translation) {
+                    originalText = transcription;
+                    outcome = translation.outcome;
+                    transcription = translation.text;
                 }
             }
+            
+            // Optionally rewrite the transcript with a chat model; the raw transcript is kept in the history
+            preset = isRewriteEnabled() ? await pickRewritePreset() : undefined;
+            rewritten = preset ? await rewriteWithPreset(preset, transcription, signal) : undefined;
+        } catch (error) {
+            cleanupTempFiles(chunkFiles);
+            throw error;
+        }
+        const text = rewritten ?? transcription;
+        
+        // Send to the clipboard, editor, terminal, ... as configured
+        const delivered = await deliverWith(targets, text);
+        
+        // Keep the transcript (and the audio, if configured) in the history
+        const historyEntry = history?.add({
+            text,
+            durationSeconds,
+            language: languageMode.code,
+            provider: provider.name,
+            recordingFile,
+            rawText: rewritten !== undefined ? transcription : undefined,
+            rewritePreset: rewritten !== undefined ? preset?.name : undefined,
+            originalText,
+            segments: outcome.segments
+        });
+        
+        if (outcome.failedCount > 0) {
+            // Keep the chunks until the user has decided whether to retry the failed ones
+            void offerFailedChunkRetry(outcome, provider, languageMode, recordingFiles, targets, historyEntry?.id, rewritten !== undefined ? preset : undefined);
+            return;
+        }
+        
+        // Show success message with first few words of transcription
+        const previewText = text.length > 30 
+            ? text.substring(0, 30) + '...' 
+            : text;
+        vscode.window.showInformationMessage(`Transcription ${delivered.join(', ')}: "${previewText}"`);
+        
+        // Clean up temporary files
+        cleanupTempFiles(recordingFiles);
+    }
+
+    // Helper function to translate a transcribed recording into English, with the provider if it can translate and
+    // otherwise with the chat model. Returns undefined if the translation failed, so that the transcript is delivered instead.
+    async function translateRecording(
+        outcome: TranscriptionOutcome,
+        transcription: string,
+        audioChunks: AudioChunk[],
+        provider: TranscriptionProvider,
+        languageMode: { code: string | null, description: string },
+        signal?: AbortSignal
+    ): Promise<{ outcome: TranscriptionOutcome, text: string } | undefined> {
+        if (!provider.canTranslate) {
+            const translated = await rewriteWithPreset(getTranslationPreset(), transcription, signal);
+            return translated !== undefined ? { outcome, text: translated } : undefined;
+        }
+        
+        vscode.window.setStatusBarMessage('Translating to English...', 10000);
+        try {
+            const translation = await transcribeAudio(audioChunks, provider, languageMode, { prompt: outcome.prompt, translate: true, signal, segments: true });
+            return { outcome: translation, text: postProcessTranscript(translation.text, 'en') };
+        } catch (error: any) {
+            if (error instanceof TranscriptionCancelledError) {
+                throw error;
+            }
+            console.error('Error translating recording:', error);
+            vscode.window.showWarningMessage(`Translating the recording failed, the transcript in the spoken language is used instead: ${error.message}`);
+            return undefined;
+        }
+    }
+
+    // Helper function to rewrite a transcript with a preset.
+    // Returns undefined if the rewrite failed, so that the raw transcript is delivered instead.
+    async function rewriteWithPreset(preset: RewritePreset, text: string, signal?: AbortSignal): Promise<string | undefined> {
+        const key = await getApiKey();
+        if (!key) {
+            return undefined; // getApiKey will show appropriate error message
+        }
+        
+        vscode.window.setStatusBarMessage(`Rewriting transcript: ${preset.name}...`, 10000);
+        try {
+            return await rewriteTranscript(createOpenAIClient(key, getRewriteModel()), preset, text, signal);
         } catch (error: any) {
-            console.error('Error stopping recording:', error);
-            vscode.window.showErrorMessage(`Error stopping recording: ${error.message}`);
+            if (error instanceof TranscriptionCancelledError) {
+                throw error;
+            }
+            console.error('Error rewriting transcript:', error);
+            vscode.window.showWarningMessage(`Rewriting the transcript failed, the raw transcript is used instead: ${error.message}`);
+            return undefined;
+        }
+    }
+
+    // Helper function to keep a recording that could not be transcribed and offer to try again
+    function reportFailedRecording(
+        recordingFile: string,
+        languageMode: { code: string | null, description: string },
+        translate: boolean,
+        error: any
+    ) {
+        // Only keep recordings that can be transcribed later, e.g. once the network is back
+        if (!isRecoverableError(error)) {
+            vscode.window.showErrorMessage(`Transcription failed: ${error.message}`);
+            cleanupTempFiles([recordingFile]);
+            return;
+        }
+        
+        let queued: FailedRecording | undefined;
+        try {
+            queued = failedRecordings?.add(recordingFile, languageMode, error.message, translate);
+            cleanupTempFiles([recordingFile]);
+        } catch (queueError) {
+            console.error('Could not keep the failed recording:', queueError);
+        }
+        
+        if (!queued) {
+            vscode.window.showErrorMessage(`Transcription failed: ${error.message}. The recording could not be kept for a retry.`);
+            return;
+        }
+        
+        vscode.window.showErrorMessage(
+            `Transcription failed: ${error.message}. The recording was kept and can be retried later with "Retry Failed Transcriptions".`,
+            'Retry Transcription'
+        ).then(choice => {
+            if (choice === 'Retry Transcription' && queued) {
+                retryFailedRecordings([queued.id]);
+            }
+        });
+    }
+
+    // Function to transcribe queued recordings again; all pending ones unless ids are given
+    async function retryFailedRecordings(ids?: string[]) {
+        if (!failedRecordings) {
+            return;
+        }
+        const items = failedRecordings.getPending().filter(item => !ids || ids.includes(item.id));
+        if (items.length === 0) {
+            vscode.window.showInformationMessage('No failed recordings waiting to be transcribed.');
+            return;
+        }
+        
+        const provider = await getTranscriptionProvider();
+        if (!provider) {
+            return; // getTranscriptionProvider will show appropriate error message
+        }
+        
+        let stillFailing = 0;
+        const cancelled = await runCancellable(async signal => {
+            for (const [index, item] of items.entries()) {
+                vscode.window.setStatusBarMessage(`Retrying failed recording ${index + 1}/${items.length}...`, 10000);
+                const languageMode = { code: item.language, description: item.languageDescription };
+                // Chunks and compressed files are written next to the work file, not into the queue folder
+                const workFile = copyToTempWorkFile(failedRecordings!.getAudioPath(item), 'voice-retry');
+                try {
+                    await transcribeAndDeliver(workFile, provider, languageMode, [workFile], getOutputTargets(), item.translate ?? false, signal);
+                    failedRecordings!.remove(item.id);
+                } catch (error: any) {
+                    cleanupTempFiles([workFile]);
+                    if (signal.aborted) {
+                        // The recordings stay in the queue for later
+                        return true;
+                    }
+                    console.error('Retrying failed recording failed:', error);
+                    failedRecordings!.markFailed(item.id, error.message);
+                    stillFailing++;
+                }
+            }
+            return false;
+        });
+        if (cancelled) {
+            return;
+        }
+        
+        if (stillFailing > 0) {
+            const choice = await vscode.window.showErrorMessage(
+                `${stillFailing} of ${items.length} recordings still could not be transcribed: ${failedRecordings.get(items[items.length - 1].id)?.error ?? 'see the log for details'}`,
+                'Try Again',
+                'Discard'
+            );
+            const failedIds = items.map(item => item.id).filter(id => failedRecordings?.get(id));
+            if (choice === 'Try Again') {
+                await retryFailedRecordings(failedIds);
+            } else if (choice === 'Discard') {
+                failedIds.forEach(id => failedRecordings?.remove(id));
+            }
+        }
+    }
+
+    // Helper function to report chunks that could not be transcribed and offer to send only those again
+    async function offerFailedChunkRetry(
+        outcome: TranscriptionOutcome,
+        provider: TranscriptionProvider,
+        languageMode: { code: string | null, description: string },
+        recordingFiles: string[],
+        targets: TranscriptDelivery,
+        historyEntryId?: string,
+        preset?: RewritePreset
+    ) {
+        let delivered: string[] = [];
+        try {
+            while (outcome.failedCount > 0) {
+                const total = outcome.chunks.length;
+                const choice = await vscode.window.showWarningMessage(
+                    `${outcome.failedCount} of ${total} chunks could not be transcribed and are marked as [inaudible] in the transcript.`,
+                    'Retry Failed Chunks'
+                );
+                if (choice !== 'Retry Failed Chunks') {
+                    return;
+                }
+                
+                vscode.window.setStatusBarMessage(`Retrying ${outcome.failedCount} failed chunks...`, 10000);
+                const previous = outcome;
+                try {
+                    outcome = await runCancellable(signal =>
+                        transcribeAudio(previous.chunks.map(transcript => transcript.chunk), provider, languageMode, { previous, signal })
+                    );
+                } catch (error: any) {
+                    console.error('Error retrying failed chunks:', error);
+                    if (error instanceof TranscriptionCancelledError) {
+                        return;
+                    }
+                    vscode.window.showErrorMessage(`Retrying failed chunks failed: ${error.message}`);
+                    continue;
+                }
+                const transcription = postProcessTranscript(outcome.text, outcome.translated ? 'en' : languageMode.code ?? outcome.language ?? null);
+                // Rewrite the complete transcript with the preset chosen for the first attempt
+                let rewritten: string | undefined;
+                try {
+                    rewritten = preset ? await runCancellable(signal => rewriteWithPreset(preset, transcription, signal)) : undefined;
+                } catch (error) {
+                    // Cancelled; the raw transcript is delivered
+                }
+                // The complete transcript goes where the first attempt went
+                delivered = await deliverWith(targets, rewritten ?? transcription);
+                if (historyEntryId) {
+                    history?.updateText(historyEntryId, rewritten ?? transcription, rewritten !== undefined ? transcription : undefined, outcome.segments);
+                }
+            }
+            vscode.window.showInformationMessage(`All chunks transcribed. Complete transcription ${delivered.join(', ')}.`);
         } finally {
-            // Reset recording state
-            isRecording = false;
-            updateStatusBarItem();
+            cleanupTempFiles(recordingFiles);
         }
     }
 
+    // Helper function to send a transcript to output targets or through a delivery function
+    async function deliverWith(delivery: TranscriptDelivery, text: string): Promise<string[]> {
+        return typeof delivery === 'function' ? delivery(text) : deliverTranscript(text, delivery);
+    }
+
+    // Helper function to copy a file into the temp folder before transcribing it, so that the chunk and
+    // upload files made from it end up there too; the caller deletes the copy with cleanupTempFiles
+    function copyToTempWorkFile(source: string, prefix: string): string {
+        const workFile = path.join(os.tmpdir(), `${prefix}-${Date.now()}${path.extname(source)}`);
+        fs.copyFileSync(source, workFile);
+        return workFile;
+    }
+
     // Helper function to clean up temporary files
     function cleanupTempFiles(files: string[]) {
         for (const file of files) {
@@ -994,18 +1930,39 @@ export function activate(context: vscode.ExtensionContext) {
     }
 }
 
-export function deactivate() {
+export async function deactivate() {
     // Clean up any resources
-    if (recordingProcess) {
-        recordingProcess.kill();
-        recordingProcess = null;
+    if (countdownTimer) {
+        clearInterval(countdownTimer);
+        countdownTimer = null;
     }
     
-    if (tempFilePath && fs.existsSync(tempFilePath)) {
-        try {
-            fs.unlinkSync(tempFilePath);
-        } catch (e) {
-            console.error('Failed to delete temporary file during deactivation:', e);
+    if (silenceMonitor) {
+        silenceMonitor.dispose();
+        silenceMonitor = null;
+    }
+    
+    if (liveDictation) {
+        liveDictation.dispose();
+        liveDictation = null;
+    }
+    
+    for (const cancellation of activeTranscriptions) {
+        cancellation.abort();
+    }
+    
+    if (recorder) {
+        await recorder.stop();
+        recorder = null;
+    }
+    
+    for (const file of [tempFilePath, ...recordingSegments]) {
+        if (file && fs.existsSync(file)) {
+            try {
+                fs.unlinkSync(file);
+            } catch (e) {
+                console.error('Failed to delete temporary file during deactivation:', e);
+            }
         }
     }
 } 
\ No newline at end of file
@@ -0,0 +1,145 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * This module keeps recordings whose transcription failed in the extension's global
+ * storage, so they can be sent again later (e.g. once the network is back) instead
+ * of having to dictate everything again.
+ */
+
+/**
+ * A recording waiting to be transcribed again
+ */
+export interface FailedRecording {
+    id: string;
+    // Milliseconds since the epoch
+    timestamp: number;
+    // Name of the saved recording in the queue folder
+    audioFile: string;
+    // Language code the recording was transcribed with, null for auto-detect
+    language: string | null;
+    languageDescription: string;
+    // Whether the recording was to be translated into English
+    translate?: boolean;
+    // Message of the last failed attempt
+    error: string;
+    attempts: number;
+}
+
+const INDEX_FILE = 'queue.json';
+
+/**
+ * Stores the queue as a JSON index next to the saved recordings
+ */
+export class FailedRecordingQueue {
+    private readonly folder: string;
+    private items: FailedRecording[] = [];
+
+    constructor(storageUri: vscode.Uri) {
+        this.folder = path.join(storageUri.fsPath, 'failed');
+        this.load();
+    }
+
+    /**
+     * The recordings still waiting, oldest first
+     */
+    getPending(): readonly FailedRecording[] {
+        return this.items;
+    }
+
+    get(id: string): FailedRecording | undefined {
+        return this.items.find(item => item.id === id);
+    }
+
+    getAudioPath(item: FailedRecording): string {
+        return path.join(this.folder, item.audioFile);
+    }
+
+    /**
+     * Copies a recording into the queue
+     * @param recordingFile The recording that could not be transcribed
+     * @param languageMode The language it was transcribed with
+     * @param error The message of the failure
+     * @param translate Whether the recording was to be translated into English
+     * @returns The queued recording
+     */
+    add(recordingFile: string, languageMode: { code: string | null, description: string }, error: string, translate: boolean = false): FailedRecording {
+        fs.mkdirSync(this.folder, { recursive: true });
+
+        const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+        const item: FailedRecording = {
+            id,
+            timestamp: Date.now(),
+            audioFile: `${id}${path.extname(recordingFile) || '.wav'}`,
+            language: languageMode.code,
+            languageDescription: languageMode.description,
+            translate,
+            error,
+            attempts: 1
+        };
+
+        fs.copyFileSync(recordingFile, this.getAudioPath(item));
+        this.items.push(item);
+        this.save();
+        return item;
+    }
+
+    /**
+     * Records another failed attempt
+     */
+    markFailed(id: string, error: string): void {
+        const item = this.get(id);
+        if (item) {
+            item.error = error;
+            item.attempts++;
+            this.save();
+        }
+    }
+
+    /**
+     * Removes a recording from the queue and deletes its audio
+     */
+    remove(id: string): void {
+        const index = this.items.findIndex(item => item.id === id);
+        if (index < 0) {
+            return;
+        }
+
+        const audioPath = this.getAudioPath(this.items[index]);
+        try {
+            if (fs.existsSync(audioPath)) {
+                fs.unlinkSync(audioPath);
+            }
+        } catch (error) {
+            console.error(`Error deleting queued recording ${audioPath}:`, error);
+        }
+        this.items.splice(index, 1);
+        this.save();
+    }
+
+    private load(): void {
+        const indexPath = path.join(this.folder, INDEX_FILE);
+        try {
+            if (fs.existsSync(indexPath)) {
+                const parsed = JSON.parse(fs.readFileSync(indexPath, 'utf8'));
+                this.items = Array.isArray(parsed) ? parsed : [];
+            }
+        } catch (error) {
+            console.error('Could not read the failed recordings queue:', error);
+            this.items = [];
+        }
+
+        // Drop entries whose audio has been removed from disk
+        this.items = this.items.filter(item => fs.existsSync(this.getAudioPath(item)));
+    }
+
+    private save(): void {
+        try {
+            fs.mkdirSync(this.folder, { recursive: true });
+            fs.writeFileSync(path.join(this.folder, INDEX_FILE), JSON.stringify(this.items, null, 2));
+        } catch (error) {
+            console.error('Could not save the failed recordings queue:', error);
+        }
+    }
+}
@@ -0,0 +1,266 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TranscriptionSegment } from './transcription-provider';
+
+/**
+ * This module keeps a history of past transcripts in the extension's global storage,
+ * so a dictation isn't lost when the clipboard is overwritten. The audio can be kept
+ * too, to transcribe it again later with different settings.
+ */
+
+/**
+ * A transcript in the history
+ */
+export interface HistoryEntry {
+    id: string;
+    // Milliseconds since the epoch
+    timestamp: number;
+    text: string;
+    durationSeconds: number;
+    // Language code the recording was transcribed with, null for auto-detect
+    language: string | null;
+    provider: string;
+    // Name of the saved recording in the history folder, if audio is kept
+    audioFile?: string;
+    // The transcript before it was rewritten, and the preset it was rewritten with
+    rawText?: string;
+    rewritePreset?: string;
+    // The transcript in the spoken language, if it was translated into English
+    originalText?: string;
+    // Timings of the transcript as transcribed, for exports with timestamps
+    segments?: TranscriptionSegment[];
+}
+
+/**
+ * The details of a new history entry
+ */
+export interface NewHistoryEntry {
+    text: string;
+    durationSeconds: number;
+    language: string | null;
+    provider: string;
+    // Recording to save with the entry if the history keeps audio
+    recordingFile?: string;
+    rawText?: string;
+    rewritePreset?: string;
+    originalText?: string;
+    segments?: TranscriptionSegment[];
+}
+
+const INDEX_FILE = 'history.json';
+
+// Function to get the configured history settings
+function getHistorySettings(): { maxEntries: number, keepAudio: boolean } {
+    const config = vscode.workspace.getConfiguration('whisperToClipboard');
+    return {
+        maxEntries: Math.max(0, config.get<number>('historyMaxEntries', 100)),
+        keepAudio: config.get<boolean>('historyKeepAudio', false)
+    };
+}
+
+/**
+ * Stores the history as a JSON index next to the saved recordings
+ */
+export class TranscriptionHistory implements vscode.Disposable {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    private readonly folder: string;
+    private entries: HistoryEntry[] = [];
+
+    readonly onDidChange = this.changeEmitter.event;
+
+    constructor(storageUri: vscode.Uri) {
+        this.folder = path.join(storageUri.fsPath, 'history');
+        this.load();
+    }
+
+    dispose(): void {
+        this.changeEmitter.dispose();
+    }
+
+    /**
+     * The entries, newest first
+     */
+    getEntries(): readonly HistoryEntry[] {
+        return this.entries;
+    }
+
+    get(id: string): HistoryEntry | undefined {
+        return this.entries.find(entry => entry.id === id);
+    }
+
+    /**
+     * Gets the path of an entry's saved recording
+     * @returns The path, or undefined if the entry has no audio or the file is gone
+     */
+    getAudioPath(entry: HistoryEntry): string | undefined {
+        if (!entry.audioFile) {
+            return undefined;
+        }
+        const audioPath = path.join(this.folder, entry.audioFile);
+        return fs.existsSync(audioPath) ? audioPath : undefined;
+    }
+
+    /**
+     * Adds a transcript to the history, dropping the oldest entries beyond the configured maximum
+     * @returns The new entry, or undefined if the history is turned off
+     */
+    add(details: NewHistoryEntry): HistoryEntry | undefined {
+        const settings = getHistorySettings();
+        if (settings.maxEntries === 0) {
+            return undefined;
+        }
+
+        const entry: HistoryEntry = {
+            id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+            timestamp: Date.now(),
+            text: details.text,
+            durationSeconds: details.durationSeconds,
+            language: details.language,
+            provider: details.provider,
+            rawText: details.rawText,
+            rewritePreset: details.rewritePreset,
+            originalText: details.originalText,
+            segments: details.segments
+        };
+
+        if (settings.keepAudio && details.recordingFile && fs.existsSync(details.recordingFile)) {
+            try {
+                fs.mkdirSync(this.folder, { recursive: true });
+                entry.audioFile = `${entry.id}${path.extname(details.recordingFile) || '.wav'}`;
+                fs.copyFileSync(details.recordingFile, path.join(this.folder, entry.audioFile));
+            } catch (error) {
+                console.error('Could not save the recording to the history:', error);
+                entry.audioFile = undefined;
+            }
+        }
+
+        this.entries.unshift(entry);
+        for (const dropped of this.entries.splice(settings.maxEntries)) {
+            this.deleteAudio(dropped);
+        }
+        this.save();
+        return entry;
+    }
+
+    /**
+     * Replaces the text of an entry, e.g. after failed chunks were transcribed again
+     * @param rawText The transcript before it was rewritten, if it was
+     * @param segments The timings of the new transcript
+     */
+    updateText(id: string, text: string, rawText?: string, segments?: TranscriptionSegment[]): void {
+        const entry = this.get(id);
+        if (entry) {
+            entry.text = text;
+            entry.rawText = rawText;
+            entry.segments = segments ?? entry.segments;
+            this.save();
+        }
+    }
+
+    remove(id: string): void {
+        const index = this.entries.findIndex(entry => entry.id === id);
+        if (index >= 0) {
+            this.deleteAudio(this.entries[index]);
+            this.entries.splice(index, 1);
+            this.save();
+        }
+    }
+
+    clear(): void {
+        for (const entry of this.entries) {
+            this.deleteAudio(entry);
+        }
+        this.entries = [];
+        this.save();
+    }
+
+    private deleteAudio(entry: HistoryEntry): void {
+        const audioPath = this.getAudioPath(entry);
+        if (audioPath) {
+            try {
+                fs.unlinkSync(audioPath);
+            } catch (error) {
+                console.error(`Error deleting history audio ${audioPath}:`, error);
+            }
+        }
+    }
+
+    private load(): void {
+        const indexPath = path.join(this.folder, INDEX_FILE);
+        try {
+            if (fs.existsSync(indexPath)) {
+                const parsed = JSON.parse(fs.readFileSync(indexPath, 'utf8'));
+                this.entries = Array.isArray(parsed) ? parsed : [];
+            }
+        } catch (error) {
+            console.error('Could not read the transcription history:', error);
+            this.entries = [];
+        }
+    }
+
+    private save(): void {
+        try {
+            fs.mkdirSync(this.folder, { recursive: true });
+            fs.writeFileSync(path.join(this.folder, INDEX_FILE), JSON.stringify(this.entries, null, 2));
+        } catch (error) {
+            console.error('Could not save the transcription history:', error);
+        }
+        this.changeEmitter.fire();
+    }
+}
+
+// Function to format an entry's time and length for the tree view
+function describeEntry(entry: HistoryEntry): string {
+    const date = new Date(entry.timestamp);
+    const seconds = Math.round(entry.durationSeconds);
+    const parts = [
+        date.toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' }),
+        isNaN(seconds) ? undefined : `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`,
+        entry.originalText !== undefined ? `${entry.language ?? 'auto'} → en` : entry.language ?? 'auto',
+        entry.rewritePreset
+    ];
+    return parts.filter(part => part !== undefined).join(' · ');
+}
+
+/**
+ * Shows the history in the panel's "Transcription History" view
+ */
+export class HistoryTreeProvider implements vscode.TreeDataProvider<HistoryEntry> {
+    readonly onDidChangeTreeData: vscode.Event<void>;
+
+    constructor(private readonly history: TranscriptionHistory) {
+        this.onDidChangeTreeData = history.onDidChange;
+    }
+
+    getTreeItem(entry: HistoryEntry): vscode.TreeItem {
+        const firstLine = entry.text.trim().split('\n')[0];
+        const item = new vscode.TreeItem(firstLine.length > 60 ? firstLine.substring(0, 60) + '...' : firstLine);
+        item.id = entry.id;
+        item.description = describeEntry(entry);
+        item.tooltip = new vscode.MarkdownString().appendText(entry.text);
+        if (entry.rawText !== undefined) {
+            item.tooltip.appendMarkdown('\n\n---\n\n**Raw transcript:** ').appendText(entry.rawText);
+        }
+        if (entry.originalText !== undefined) {
+            item.tooltip.appendMarkdown('\n\n---\n\n**Original transcript:** ').appendText(entry.originalText);
+        }
+        item.iconPath = new vscode.ThemeIcon(entry.audioFile ? 'mic' : 'note');
+        // The context value decides which actions the view offers for the entry
+        item.contextValue = 'historyEntry'
+            + (this.history.getAudioPath(entry) ? 'WithAudio' : '')
+            + (entry.rawText !== undefined ? 'Rewritten' : '')
+            + (entry.originalText !== undefined ? 'Translated' : '')
+            + (entry.segments ? 'Timestamped' : '');
+        item.command = {
+            command: 'whisper-to-clipboard.openHistoryEntry',
+            title: 'Open as Document',
+            arguments: [entry]
+        };
+        return item;
+    }
+
+    getChildren(entry?: HistoryEntry): HistoryEntry[] {
+        return entry ? [] : [...this.history.getEntries()];
+    }
+}
@@ -0,0 +1,241 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { writeWavFile } from './wav';
+import { TranscriptionProvider } from './transcription-provider';
+import { deliverTranscript } from './cursor-integration';
+
+/**
+ * This module shows a preview of the transcript while a recording is captured.
+ * The audio streamed by the recorder is transcribed every few seconds in rolling
+ * windows and shown as ghost text at the cursor. When the recording ends, the
+ * transcript of the whole recording replaces the preview in the document.
+ */
+
+/**
+ * Live dictation settings
+ */
+export interface LiveDictationSettings {
+    // How often the audio captured so far is sent for a preview
+    intervalSeconds: number;
+    // Audio is sent again with each update until a window is this long, then its text is kept as is
+    windowSeconds: number;
+}
+
+// Windows shorter than this aren't sent, transcription of a fraction of a word is mostly noise
+const MIN_WINDOW_SECONDS = 1;
+// Characters of the preview shown before the ghost text is cut off at the front
+const MAX_PREVIEW_LENGTH = 120;
+// Characters of the preview sent as prompt, so that words split between windows are recognized
+const PROMPT_LENGTH = 200;
+
+// Function to get the configured live dictation settings
+export function getLiveDictationSettings(): LiveDictationSettings {
+    const config = vscode.workspace.getConfiguration('whisperToClipboard');
+    const intervalSeconds = Math.max(1, config.get<number>('liveDictationIntervalSeconds', 2));
+    return {
+        intervalSeconds,
+        windowSeconds: Math.max(intervalSeconds, config.get<number>('liveDictationWindowSeconds', 15))
+    };
+}
+
+/**
+ * Shows the transcript of a running recording as ghost text in an editor
+ */
+export class LiveDictation implements vscode.Disposable {
+    private readonly document: vscode.TextDocument;
+    private readonly decoration = vscode.window.createTextEditorDecorationType({
+        after: {
+            color: new vscode.ThemeColor('editorGhostText.foreground'),
+            fontStyle: 'italic'
+        }
+    });
+    private readonly disposables: vscode.Disposable[] = [];
+    private readonly abort = new AbortController();
+    private timer: NodeJS.Timeout | null = null;
+    // Where the transcript goes, as an offset that follows edits made before it
+    private anchor: number;
+    // Audio of the current window and how much of it the partial text covers
+    private pending: Buffer = Buffer.alloc(0);
+    private transcribedLength = 0;
+    private committedText = '';
+    private partialText = '';
+    private inFlight = false;
+    private disposed = false;
+    // The transcript inserted by finish, replaced if finish is called again with a completed transcript
+    private insertedText: string | null = null;
+
+    constructor(
+        editor: vscode.TextEditor,
+        private readonly provider: TranscriptionProvider,
+        private readonly language: string | null,
+        private readonly sampleRate: number,
+        private readonly settings: LiveDictationSettings = getLiveDictationSettings()
+    ) {
+        this.document = editor.document;
+        this.anchor = this.document.offsetAt(editor.selection.active);
+
+        this.disposables.push(
+            vscode.workspace.onDidChangeTextDocument(event => {
+                if (event.document === this.document) {
+                    this.moveAnchor(event.contentChanges);
+                }
+            }),
+            vscode.window.onDidChangeVisibleTextEditors(() => this.render())
+        );
+        this.timer = setInterval(() => this.update(), this.settings.intervalSeconds * 1000);
+    }
+
+    /**
+     * Adds 16-bit mono PCM captured by the recorder
+     */
+    push(data: Buffer): void {
+        this.pending = Buffer.concat([this.pending, data]);
+    }
+
+    /**
+     * Stops the preview and inserts the transcript of the whole recording where the preview was shown.
+     * When failed chunks were transcribed later, calling it again replaces the incomplete transcript.
+     * @param text The final transcript
+     * @returns A description of what was done, for the success message
+     */
+    async finish(text: string): Promise<string[]> {
+        this.stop();
+        if (this.document.isClosed) {
+            // The editor went away while recording, don't lose the transcript
+            return deliverTranscript(text, ['clipboard']);
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        const previousOffset = this.findInsertedText();
+        if (previousOffset >= 0) {
+            const range = new vscode.Range(
+                this.document.positionAt(previousOffset),
+                this.document.positionAt(previousOffset + this.insertedText!.length)
+            );
+            edit.replace(this.document.uri, range, text);
+        } else {
+            edit.insert(this.document.uri, this.document.positionAt(this.anchor), text);
+        }
+        if (!await vscode.workspace.applyEdit(edit)) {
+            return deliverTranscript(text, ['clipboard']);
+        }
+        this.insertedText = text;
+        return [previousOffset >= 0 ? 'replaced in the editor' : 'inserted into the editor'];
+    }
+
+    // Function to find the transcript inserted before; -1 if there is none, or it was edited or occurs more than once
+    private findInsertedText(): number {
+        if (!this.insertedText) {
+            return -1;
+        }
+        const content = this.document.getText();
+        const offset = content.indexOf(this.insertedText);
+        return offset >= 0 && content.lastIndexOf(this.insertedText) === offset ? offset : -1;
+    }
+
+    // Function to stop sending audio and remove the ghost text
+    private stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+        this.abort.abort();
+        this.committedText = '';
+        this.partialText = '';
+        this.render();
+    }
+
+    dispose(): void {
+        this.stop();
+        this.disposed = true;
+        this.decoration.dispose();
+        for (const disposable of this.disposables) {
+            disposable.dispose();
+        }
+        this.disposables.length = 0;
+    }
+
+    // Function to keep the anchor in place when the document is edited during the recording
+    private moveAnchor(changes: readonly vscode.TextDocumentContentChangeEvent[]): void {
+        // Changes are reported with offsets in the document before the edit, the last one first
+        for (const change of changes) {
+            const end = change.rangeOffset + change.rangeLength;
+            if (end <= this.anchor) {
+                this.anchor += change.text.length - change.rangeLength;
+            } else if (change.rangeOffset < this.anchor) {
+                // The text around the anchor was replaced, continue where the replacement starts
+                this.anchor = change.rangeOffset;
+            }
+        }
+        this.render();
+    }
+
+    // Function to send the current window for transcription, if there is new audio
+    private async update(): Promise<void> {
+        const bytesPerSecond = this.sampleRate * 2;
+        if (this.inFlight || this.pending.length === this.transcribedLength || this.pending.length < MIN_WINDOW_SECONDS * bytesPerSecond) {
+            return;
+        }
+
+        const pcm = this.pending;
+        const file = path.join(os.tmpdir(), `voice-recording-live-${Date.now()}.wav`);
+        this.inFlight = true;
+        try {
+            writeWavFile(file, pcm, this.sampleRate);
+            const result = await this.provider.transcribe({
+                file,
+                language: this.language,
+                prompt: this.committedText.slice(-PROMPT_LENGTH),
+                signal: this.abort.signal
+            });
+            if (this.abort.signal.aborted) {
+                return;
+            }
+
+            const text = result.text.trim();
+            if (pcm.length >= this.settings.windowSeconds * bytesPerSecond) {
+                // The window is full: keep its text and start the next window after it
+                this.committedText = [this.committedText, text].filter(part => part.length > 0).join(' ');
+                this.partialText = '';
+                this.pending = this.pending.subarray(pcm.length);
+                this.transcribedLength = 0;
+            } else {
+                this.partialText = text;
+                this.transcribedLength = pcm.length;
+            }
+            this.render();
+        } catch (error) {
+            if (!this.abort.signal.aborted) {
+                // The preview is best-effort, the whole recording is transcribed when it ends
+                console.warn('Live dictation update failed:', error);
+            }
+        } finally {
+            this.inFlight = false;
+            if (fs.existsSync(file)) {
+                fs.unlinkSync(file);
+            }
+        }
+    }
+
+    // Function to show the preview as ghost text in the editors that show the document
+    private render(): void {
+        if (this.disposed) {
+            return;
+        }
+        const preview = [this.committedText, this.partialText].filter(part => part.length > 0).join(' ');
+        const shown = preview.length > MAX_PREVIEW_LENGTH ? '…' + preview.slice(-MAX_PREVIEW_LENGTH) : preview;
+        const position = this.document.isClosed ? null : this.document.positionAt(this.anchor);
+
+        for (const editor of vscode.window.visibleTextEditors) {
+            if (editor.document !== this.document) {
+                continue;
+            }
+            const options: vscode.DecorationOptions[] = shown && position
+                ? [{ range: new vscode.Range(position, position), renderOptions: { after: { contentText: shown } } }]
+                : [];
+            editor.setDecorations(this.decoration, options);
+        }
+    }
+}
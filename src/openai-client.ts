@@ -0,0 +1,66 @@
+import * as vscode from 'vscode';
+import { OpenAI, AzureOpenAI } from 'openai';
+
+/**
+ * This module creates the OpenAI clients used by the extension.
+ * All clients go through createOpenAIClient so that the endpoint, organization,
+ * project and header settings apply everywhere.
+ */
+
+/**
+ * Endpoint settings for OpenAI and OpenAI-compatible servers
+ */
+export interface OpenAIEndpointSettings {
+    baseURL: string;
+    organization: string;
+    project: string;
+    customHeaders: Record<string, string>;
+    azureApiVersion: string;
+    transcriptionModel: string;
+}
+
+// Function to get the configured endpoint settings
+export function getEndpointSettings(): OpenAIEndpointSettings {
+    const config = vscode.workspace.getConfiguration('whisperToClipboard');
+    return {
+        baseURL: config.get<string>('apiBaseUrl', '').trim(),
+        organization: config.get<string>('organization', '').trim(),
+        project: config.get<string>('project', '').trim(),
+        customHeaders: config.get<Record<string, string>>('customHeaders', {}),
+        azureApiVersion: config.get<string>('azureApiVersion', '').trim(),
+        transcriptionModel: config.get<string>('transcriptionModel', 'whisper-1').trim() || 'whisper-1'
+    };
+}
+
+// Function to check if requests go somewhere other than api.openai.com
+export function isCustomEndpoint(): boolean {
+    return getEndpointSettings().baseURL.length > 0;
+}
+
+// Function to create an OpenAI client from the configured endpoint settings.
+// On Azure the client is bound to one deployment, the transcription model unless another is given.
+export function createOpenAIClient(apiKey: string, azureDeployment?: string): OpenAI {
+    const settings = getEndpointSettings();
+
+    if (settings.azureApiVersion) {
+        // Azure OpenAI routes requests by deployment name instead of model id
+        return new AzureOpenAI({
+            apiKey,
+            endpoint: settings.baseURL || undefined,
+            apiVersion: settings.azureApiVersion,
+            deployment: azureDeployment ?? settings.transcriptionModel,
+            defaultHeaders: settings.customHeaders,
+            maxRetries: 0
+        });
+    }
+
+    return new OpenAI({
+        apiKey,
+        baseURL: settings.baseURL || undefined,
+        organization: settings.organization || null,
+        project: settings.project || null,
+        defaultHeaders: settings.customHeaders,
+        // Requests are retried by withRetry (see retry.ts), which follows the whisperToClipboard.maxRetries setting
+        maxRetries: 0
+    });
+}
@@ -0,0 +1,196 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * This module rewrites transcripts before they are delivered: user-defined replacement
+ * rules from the settings and a .whisper-rules.json file in the workspace, followed by
+ * spoken commands like "new line", "open paren" or "camel case foo bar".
+ */
+
+/**
+ * A user-defined replacement rule
+ */
+export interface ReplacementRule {
+    // The text to look for, or a regular expression if regex is set
+    find: string;
+    // The replacement; with regex, $1 etc. refer to capture groups
+    replace: string;
+    regex?: boolean;
+    // Match case; off by default
+    caseSensitive?: boolean;
+    // Language code the rule is limited to, e.g. "de"; applies to all languages if unset
+    language?: string;
+}
+
+const RULES_FILE = '.whisper-rules.json';
+
+// Languages the built-in spoken commands understand; null is an unknown language
+const SPOKEN_COMMAND_LANGUAGES: (string | null)[] = [null, 'en'];
+
+// Spoken commands that stand for a character. Line breaks only count when they are said on their own,
+// between sentences or clauses ("Hello. New line. World."), so that "a new line of code" stays as it is;
+// the punctuation Whisper puts around them is dropped, except for the end of the sentence before.
+// Whisper's punctuation inside brackets and quotes is dropped, the punctuation outside is kept.
+const SPOKEN_SYMBOLS: { phrase: string, text: string, kind: 'lineBreak' | 'open' | 'close' }[] = [
+    { phrase: 'new paragraph', text: '\n\n', kind: 'lineBreak' },
+    { phrase: 'new line', text: '\n', kind: 'lineBreak' },
+    { phrase: 'open paren', text: '(', kind: 'open' },
+    { phrase: 'close paren', text: ')', kind: 'close' },
+    { phrase: 'open bracket', text: '[', kind: 'open' },
+    { phrase: 'close bracket', text: ']', kind: 'close' },
+    { phrase: 'open brace', text: '{', kind: 'open' },
+    { phrase: 'close brace', text: '}', kind: 'close' },
+    { phrase: 'open quote', text: '"', kind: 'open' },
+    { phrase: 'close quote', text: '"', kind: 'close' }
+];
+
+// Spoken commands that join the words after them, up to the next punctuation mark
+const CASING_COMMANDS: Record<string, (words: string[]) => string> = {
+    'camel case': words => words.map((word, i) => i === 0 ? word : capitalize(word)).join(''),
+    'pascal case': words => words.map(capitalize).join(''),
+    'snake case': words => words.join('_'),
+    'kebab case': words => words.join('-'),
+    'constant case': words => words.join('_').toUpperCase()
+};
+
+// Function to upper-case the first letter of a word
+function capitalize(word: string): string {
+    return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+// Function to escape a literal string for use in a regular expression
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Function to check if a value from the settings or the rules file is a usable rule
+function isReplacementRule(value: any): value is ReplacementRule {
+    return typeof value === 'object' && value !== null
+        && typeof value.find === 'string' && value.find.length > 0
+        && typeof value.replace === 'string';
+}
+
+// Function to read the rules of the .whisper-rules.json files in the workspace folders
+function readRulesFiles(): ReplacementRule[] {
+    const rules: ReplacementRule[] = [];
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+        const file = path.join(folder.uri.fsPath, RULES_FILE);
+        try {
+            if (!fs.existsSync(file)) {
+                continue;
+            }
+            const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+            if (!Array.isArray(parsed)) {
+                throw new Error('expected an array of rules');
+            }
+            rules.push(...parsed.filter(isReplacementRule));
+        } catch (error: any) {
+            console.error(`Could not read ${file}:`, error);
+            vscode.window.showWarningMessage(`Ignoring ${RULES_FILE}: ${error.message}`);
+        }
+    }
+    return rules;
+}
+
+/**
+ * Gets the replacement rules in the order they are applied: settings first, then the workspace file
+ */
+export function getReplacementRules(): ReplacementRule[] {
+    const config = vscode.workspace.getConfiguration('whisperToClipboard');
+    const configured = config.get<any[]>('replacementRules', []).filter(isReplacementRule);
+    return [...configured, ...readRulesFiles()];
+}
+
+/**
+ * Applies replacement rules in order
+ * @param text The transcript
+ * @param rules The rules to apply
+ * @param languageCode The language the recording was transcribed with or detected in, null if it isn't known
+ * @returns The rewritten transcript; rules with an invalid expression are skipped
+ */
+export function applyReplacementRules(text: string, rules: ReplacementRule[], languageCode: string | null): string {
+    for (const rule of rules) {
+        if (rule.language && rule.language !== languageCode) {
+            continue;
+        }
+
+        let pattern: RegExp;
+        try {
+            const source = rule.regex ? rule.find : escapeRegExp(rule.find);
+            pattern = new RegExp(source, rule.caseSensitive ? 'g' : 'gi');
+        } catch (error) {
+            console.error(`Skipping replacement rule with invalid expression "${rule.find}":`, error);
+            continue;
+        }
+
+        // Literal replacements are inserted as-is, so "$" in them needs no escaping
+        text = rule.regex ? text.replace(pattern, rule.replace) : text.replace(pattern, () => rule.replace);
+    }
+    return text;
+}
+
+/**
+ * Turns spoken formatting commands into the text they stand for, e.g.
+ * "call open paren x close paren" becomes "call (x)" and "camel case user name" becomes "userName"
+ * @param text The transcript
+ * @returns The transcript with the commands carried out
+ */
+export function applySpokenCommands(text: string): string {
+    // Symbols go first, so that "camel case user name close paren" stops at the bracket
+    for (const symbol of SPOKEN_SYMBOLS) {
+        switch (symbol.kind) {
+            case 'lineBreak': {
+                const pattern = new RegExp(`(^|[.,;:!?\\n])[ \\t]*\\b${symbol.phrase}\\b[ \\t]*(?:[.,;:!?]|(?=\\n)|$)[ \\t]*`, 'gi');
+                // A line break consumes the punctuation in front of the next one, so repeat until all are replaced
+                let previous: string;
+                do {
+                    previous = text;
+                    // A sentence that ends before a line break keeps its full stop, question or exclamation mark
+                    text = text.replace(pattern, (_match, before: string) => (/[.!?\n]/.test(before) ? before : '') + symbol.text);
+                } while (text !== previous);
+                break;
+            }
+            case 'open': {
+                const pattern = new RegExp(`[ \\t]*\\b${symbol.phrase}\\b[,.;:]?[ \\t]*`, 'gi');
+                text = text.replace(pattern, (_match, offset: number, whole: string) => {
+                    const atStart = offset === 0 || /\s/.test(whole.charAt(offset - 1));
+                    return (atStart ? '' : ' ') + symbol.text;
+                });
+                break;
+            }
+            case 'close': {
+                const pattern = new RegExp(`[ \\t]*[,.;:]?[ \\t]*\\b${symbol.phrase}\\b`, 'gi');
+                text = text.replace(pattern, () => symbol.text);
+                break;
+            }
+        }
+    }
+
+    for (const [phrase, join] of Object.entries(CASING_COMMANDS)) {
+        // Like line breaks, a casing command only counts at the start of a sentence or clause, or after an opening
+        // bracket, so that "use snake case for variables" is left alone. The words up to the next punctuation mark,
+        // bracket or line break are joined.
+        const pattern = new RegExp(`(^|[.,;:!?\\n(\\[{"][ \\t]*)\\b${phrase}[,:]?\\s+([^.,;:!?()\\[\\]{}"\\n]+)`, 'gi');
+        text = text.replace(pattern, (_match, before: string, words: string) =>
+            before + join(words.trim().split(/\s+/).map(word => word.toLowerCase()))
+        );
+    }
+    return text;
+}
+
+/**
+ * Rewrites a transcript with the configured replacement rules and, if enabled, the spoken commands
+ * @param text The transcript as returned by the transcription
+ * @param languageCode The language the recording was transcribed with or detected in, null if it isn't known
+ * @returns The transcript to deliver
+ */
+export function postProcessTranscript(text: string, languageCode: string | null): string {
+    let processed = applyReplacementRules(text, getReplacementRules(), languageCode);
+
+    const spokenCommands = vscode.workspace.getConfiguration('whisperToClipboard').get<boolean>('spokenCommands', false);
+    if (spokenCommands && SPOKEN_COMMAND_LANGUAGES.includes(languageCode)) {
+        processed = applySpokenCommands(processed);
+    }
+    return processed;
+}
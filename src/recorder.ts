@@ -0,0 +1,618 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as child_process from 'child_process';
+import { checkAndRepairWav, createWavHeader } from './wav';
+
+/**
+ * This module wraps the command line tools used to capture audio from the microphone.
+ * The rest of the extension only talks to the Recorder interface and never spawns
+ * recording processes itself.
+ */
+
+export type RecorderBackend =
+    | 'sox'
+    | 'arecord'
+    | 'parecord'
+    | 'pw-record'
+    | 'ffmpeg-pulse'
+    | 'ffmpeg-alsa'
+    | 'ffmpeg-avfoundation';
+
+/**
+ * Settings for a single recording
+ */
+export interface RecorderOptions {
+    outputFile: string;
+    sampleRate: string;
+    maxDurationSeconds: number;
+    // Capture device id as returned by listInputDevices; empty for the system default
+    device: string;
+    // Read the samples through a pipe while recording; the recorder still writes them to outputFile
+    stream?: boolean;
+}
+
+/**
+ * A capture device that a backend can record from
+ */
+export interface InputDevice {
+    id: string;
+    label: string;
+}
+
+/**
+ * How a recording process ended
+ */
+export interface RecorderExit {
+    code: number | null;
+    // False when the tool exited on its own, e.g. because the maximum duration was reached
+    stoppedByUser: boolean;
+}
+
+/**
+ * A running or finished microphone recording
+ */
+export interface Recorder {
+    readonly backend: RecorderBackend;
+    readonly isRunning: boolean;
+    readonly isPaused: boolean;
+    readonly onDidError: vscode.Event<Error>;
+    readonly onDidExit: vscode.Event<RecorderExit>;
+    // 16-bit mono PCM as it is captured, only for recordings started with stream
+    readonly onDidReceiveAudio: vscode.Event<Buffer>;
+    start(options: RecorderOptions): void;
+    // Resolves once the tool has exited and the output file is complete
+    stop(): Promise<void>;
+    pause(): void;
+    resume(): void;
+}
+
+interface BackendDefinition {
+    label: string;
+    command: string;
+    versionArgs: string[];
+    platforms: NodeJS.Platform[];
+    // Whether the tool stops by itself after the maximum duration
+    supportsDurationLimit: boolean;
+    buildArgs(options: RecorderOptions): string[];
+    // Arguments that write raw 16-bit mono PCM to stdout instead of a WAV file
+    buildStreamArgs(options: RecorderOptions): string[];
+    buildEnv?(options: RecorderOptions): NodeJS.ProcessEnv;
+    listDevices(): Promise<InputDevice[]>;
+}
+
+const BACKENDS: Record<RecorderBackend, BackendDefinition> = {
+    'sox': {
+        label: 'SoX (rec)',
+        command: 'rec',
+        versionArgs: ['--version'],
+        platforms: ['darwin', 'linux'],
+        supportsDurationLimit: true,
+        buildArgs: options => [
+            options.outputFile,
+            'rate', options.sampleRate,
+            'channels', '1',
+            'trim', '0', options.maxDurationSeconds.toString()
+        ],
+        buildStreamArgs: options => [
+            '-q',
+            '-t', 'raw', '-e', 'signed-integer', '-b', '16', '-',
+            'rate', options.sampleRate,
+            'channels', '1',
+            'trim', '0', options.maxDurationSeconds.toString()
+        ],
+        // rec reads the input device from the AUDIODEV environment variable
+        buildEnv: options => options.device ? { ...process.env, AUDIODEV: options.device } : process.env,
+        listDevices: () => os.platform() === 'darwin' ? listAVFoundationDevices('name') : listAlsaDevices()
+    },
+    'arecord': {
+        label: 'ALSA (arecord)',
+        command: 'arecord',
+        versionArgs: ['--version'],
+        platforms: ['linux'],
+        supportsDurationLimit: true,
+        buildArgs: options => [
+            ...(options.device ? ['-D', options.device] : []),
+            '-f', 'S16_LE',
+            '-c', '1',
+            '-r', options.sampleRate,
+            '-d', options.maxDurationSeconds.toString(),
+            options.outputFile
+        ],
+        // Without a file name arecord writes to stdout
+        buildStreamArgs: options => [
+            ...(options.device ? ['-D', options.device] : []),
+            '-q',
+            '-t', 'raw',
+            '-f', 'S16_LE',
+            '-c', '1',
+            '-r', options.sampleRate,
+            '-d', options.maxDurationSeconds.toString()
+        ],
+        listDevices: () => listAlsaDevices()
+    },
+    'parecord': {
+        label: 'PulseAudio / PipeWire (parecord)',
+        command: 'parecord',
+        versionArgs: ['--version'],
+        platforms: ['linux'],
+        supportsDurationLimit: false,
+        buildArgs: options => [
+            ...(options.device ? [`--device=${options.device}`] : []),
+            '--file-format=wav',
+            '--format=s16le',
+            '--channels=1',
+            `--rate=${options.sampleRate}`,
+            options.outputFile
+        ],
+        // Without a file name parecord writes to stdout
+        buildStreamArgs: options => [
+            ...(options.device ? [`--device=${options.device}`] : []),
+            '--raw',
+            '--format=s16le',
+            '--channels=1',
+            `--rate=${options.sampleRate}`
+        ],
+        listDevices: () => listPulseSources()
+    },
+    'pw-record': {
+        label: 'PipeWire (pw-record)',
+        command: 'pw-record',
+        versionArgs: ['--version'],
+        platforms: ['linux'],
+        supportsDurationLimit: false,
+        buildArgs: options => [
+            ...(options.device ? ['--target', options.device] : []),
+            '--format', 's16',
+            '--channels', '1',
+            '--rate', options.sampleRate,
+            options.outputFile
+        ],
+        buildStreamArgs: options => [
+            ...(options.device ? ['--target', options.device] : []),
+            '--raw',
+            '--format', 's16',
+            '--channels', '1',
+            '--rate', options.sampleRate,
+            '-'
+        ],
+        // pipewire-pulse exposes PipeWire nodes under the same names as pactl
+        listDevices: () => listPulseSources()
+    },
+    'ffmpeg-pulse': {
+        label: 'FFmpeg (PulseAudio input)',
+        command: 'ffmpeg',
+        versionArgs: ['-version'],
+        platforms: ['linux'],
+        supportsDurationLimit: true,
+        buildArgs: options => ffmpegArgs(['-f', 'pulse', '-i', options.device || 'default'], options, false),
+        buildStreamArgs: options => ffmpegArgs(['-f', 'pulse', '-i', options.device || 'default'], options, true),
+        listDevices: () => listPulseSources()
+    },
+    'ffmpeg-alsa': {
+        label: 'FFmpeg (ALSA input)',
+        command: 'ffmpeg',
+        versionArgs: ['-version'],
+        platforms: ['linux'],
+        supportsDurationLimit: true,
+        buildArgs: options => ffmpegArgs(['-f', 'alsa', '-i', options.device || 'default'], options, false),
+        buildStreamArgs: options => ffmpegArgs(['-f', 'alsa', '-i', options.device || 'default'], options, true),
+        listDevices: () => listAlsaDevices()
+    },
+    'ffmpeg-avfoundation': {
+        label: 'FFmpeg (AVFoundation input)',
+        command: 'ffmpeg',
+        versionArgs: ['-version'],
+        platforms: ['darwin'],
+        supportsDurationLimit: true,
+        buildArgs: options => ffmpegArgs(['-f', 'avfoundation', '-i', `:${options.device || '0'}`], options, false),
+        buildStreamArgs: options => ffmpegArgs(['-f', 'avfoundation', '-i', `:${options.device || '0'}`], options, true),
+        listDevices: () => listAVFoundationDevices('index')
+    }
+};
+
+// Order in which backends are tried when the backend setting is "auto".
+// parecord works with both PulseAudio and PipeWire (through pipewire-pulse) and
+// follows the desktop's default source, unlike arecord's ALSA default.
+const AUTO_DETECT_ORDER: RecorderBackend[] = [
+    'sox',
+    'parecord',
+    'pw-record',
+    'arecord',
+    'ffmpeg-pulse',
+    'ffmpeg-avfoundation',
+    'ffmpeg-alsa'
+];
+
+// How long a recording tool gets to finalize its output after SIGINT before it is killed
+const STOP_TIMEOUT_MS = 5000;
+
+function ffmpegArgs(inputArgs: string[], options: RecorderOptions, stream: boolean): string[] {
+    return [
+        '-hide_banner',
+        '-loglevel', 'error',
+        ...inputArgs,
+        '-t', options.maxDurationSeconds.toString(),
+        '-ac', '1',
+        '-ar', options.sampleRate,
+        '-c:a', 'pcm_s16le',
+        ...(stream ? ['-f', 's16le', 'pipe:1'] : ['-y', options.outputFile])
+    ];
+}
+
+/**
+ * Records audio by running one of the supported command line tools
+ */
+class ProcessRecorder implements Recorder {
+    private process: child_process.ChildProcess | null = null;
+    private exited: Promise<void> = Promise.resolve();
+    private durationTimer: NodeJS.Timeout | null = null;
+    private paused = false;
+    private stopRequested = false;
+    private readonly errorEmitter = new vscode.EventEmitter<Error>();
+    private readonly exitEmitter = new vscode.EventEmitter<RecorderExit>();
+    private readonly audioEmitter = new vscode.EventEmitter<Buffer>();
+
+    readonly onDidError = this.errorEmitter.event;
+    readonly onDidExit = this.exitEmitter.event;
+    readonly onDidReceiveAudio = this.audioEmitter.event;
+
+    constructor(readonly backend: RecorderBackend) {}
+
+    get isRunning(): boolean {
+        return this.process !== null;
+    }
+
+    get isPaused(): boolean {
+        return this.paused;
+    }
+
+    start(options: RecorderOptions): void {
+        if (this.process) {
+            throw new Error('Recording is already in progress');
+        }
+
+        const definition = BACKENDS[this.backend];
+        const args = options.stream ? definition.buildStreamArgs(options) : definition.buildArgs(options);
+        console.log(`Starting ${definition.command} ${args.join(' ')}`);
+
+        const recordingProcess = child_process.spawn(definition.command, args, {
+            env: definition.buildEnv ? definition.buildEnv(options) : process.env
+        });
+        this.process = recordingProcess;
+        this.stopRequested = false;
+
+        // When streaming, the tool writes raw samples to stdout and the WAV file is written here.
+        // The header's sizes are placeholders until the recording has ended.
+        let outputFd: number | null = null;
+        if (options.stream) {
+            outputFd = fs.openSync(options.outputFile, 'w');
+            fs.writeSync(outputFd, createWavHeader(parseInt(options.sampleRate, 10), 1, 16, 0xFFFFFFFF));
+        }
+        const closeOutput = () => {
+            if (outputFd !== null) {
+                fs.closeSync(outputFd);
+                outputFd = null;
+                checkAndRepairWav(options.outputFile);
+            }
+        };
+
+        this.exited = new Promise<void>((resolve) => {
+            recordingProcess.on('error', (err) => {
+                this.clearDurationTimer();
+                this.process = null;
+                closeOutput();
+                this.errorEmitter.fire(err);
+                resolve();
+            });
+
+            recordingProcess.on('close', (code) => {
+                this.clearDurationTimer();
+                this.process = null;
+                this.paused = false;
+                closeOutput();
+                this.exitEmitter.fire({ code, stoppedByUser: this.stopRequested });
+                resolve();
+            });
+        });
+
+        // Add stdout and stderr handlers for better debugging
+        recordingProcess.stdout?.on('data', (data: Buffer) => {
+            if (outputFd === null) {
+                console.log(`Recording stdout: ${data}`);
+                return;
+            }
+            fs.writeSync(outputFd, data);
+            this.audioEmitter.fire(data);
+        });
+
+        recordingProcess.stderr?.on('data', (data) => {
+            console.log(`Recording stderr: ${data}`);
+        });
+
+        // Tools without a duration option are stopped by a timer instead
+        if (!definition.supportsDurationLimit) {
+            this.durationTimer = setTimeout(() => {
+                this.terminate().catch(error => console.error('Failed to stop recording at the duration limit:', error));
+            }, options.maxDurationSeconds * 1000);
+        }
+    }
+
+    async stop(): Promise<void> {
+        this.stopRequested = true;
+        await this.terminate();
+    }
+
+    // Asks the tool to finish with SIGINT so that it flushes and finalizes the WAV file,
+    // and only kills it if it does not exit in time
+    private async terminate(): Promise<void> {
+        this.clearDurationTimer();
+        const recordingProcess = this.process;
+        if (!recordingProcess) {
+            return this.exited;
+        }
+
+        // A stopped process has to be continued before it can handle the signal
+        if (this.paused) {
+            this.resume();
+        }
+        recordingProcess.kill('SIGINT');
+
+        let timeout: NodeJS.Timeout | undefined;
+        const timedOut = await Promise.race([
+            this.exited.then(() => false),
+            new Promise<boolean>(resolve => {
+                timeout = setTimeout(() => resolve(true), STOP_TIMEOUT_MS);
+            })
+        ]);
+        clearTimeout(timeout);
+
+        if (timedOut) {
+            console.warn(`Recording process did not exit within ${STOP_TIMEOUT_MS}ms, killing it`);
+            recordingProcess.kill('SIGKILL');
+            await this.exited;
+        }
+    }
+
+    pause(): void {
+        if (!this.process || this.paused) {
+            return;
+        }
+        if (os.platform() === 'win32') {
+            throw new Error('Pausing a recording is not supported on Windows');
+        }
+        this.process.kill('SIGSTOP');
+        this.paused = true;
+    }
+
+    resume(): void {
+        if (!this.process || !this.paused) {
+            return;
+        }
+        this.process.kill('SIGCONT');
+        this.paused = false;
+    }
+
+    private clearDurationTimer(): void {
+        if (this.durationTimer) {
+            clearTimeout(this.durationTimer);
+            this.durationTimer = null;
+        }
+    }
+}
+
+let availableBackendsCache: RecorderBackend[] | null = null;
+
+// Function to run a command and return everything it printed, whatever its exit code
+function captureOutput(command: string, args: string[]): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+        const process = child_process.spawn(command, args);
+        let output = '';
+
+        process.stdout.on('data', (data) => {
+            output += data.toString();
+        });
+
+        process.stderr.on('data', (data) => {
+            output += data.toString();
+        });
+
+        process.on('close', () => resolve(output));
+        process.on('error', (err) => reject(err));
+    });
+}
+
+// Function to list ALSA capture devices from `arecord -L`.
+// Device names start at column 0, their descriptions are indented below them.
+async function listAlsaDevices(): Promise<InputDevice[]> {
+    const output = await captureOutput('arecord', ['-L']);
+    const devices: InputDevice[] = [];
+
+    for (const line of output.split('\n')) {
+        if (!line.trim()) {
+            continue;
+        }
+        if (!/^\s/.test(line)) {
+            if (line === 'null') {
+                continue;
+            }
+            devices.push({ id: line.trim(), label: line.trim() });
+        } else if (devices.length > 0 && devices[devices.length - 1].label === devices[devices.length - 1].id) {
+            devices[devices.length - 1].label = line.trim();
+        }
+    }
+
+    return devices;
+}
+
+// Function to list PulseAudio / PipeWire sources from `pactl list sources`, skipping monitors of outputs
+async function listPulseSources(): Promise<InputDevice[]> {
+    const output = await captureOutput('pactl', ['list', 'sources']);
+    const devices: InputDevice[] = [];
+    let currentName = '';
+
+    for (const line of output.split('\n')) {
+        const nameMatch = line.match(/^\s*Name:\s*(.+)$/);
+        if (nameMatch) {
+            currentName = nameMatch[1].trim();
+            continue;
+        }
+
+        const descriptionMatch = line.match(/^\s*Description:\s*(.+)$/);
+        if (descriptionMatch && currentName) {
+            if (!currentName.endsWith('.monitor')) {
+                devices.push({ id: currentName, label: descriptionMatch[1].trim() });
+            }
+            currentName = '';
+        }
+    }
+
+    return devices;
+}
+
+// Function to list macOS audio inputs from `ffmpeg -f avfoundation -list_devices true`
+async function listAVFoundationDevices(idType: 'index' | 'name'): Promise<InputDevice[]> {
+    const output = await captureOutput('ffmpeg', ['-hide_banner', '-f', 'avfoundation', '-list_devices', 'true', '-i', '']);
+    const devices: InputDevice[] = [];
+    let inAudioSection = false;
+
+    for (const line of output.split('\n')) {
+        if (line.includes('AVFoundation audio devices')) {
+            inAudioSection = true;
+            continue;
+        }
+        if (line.includes('AVFoundation video devices')) {
+            inAudioSection = false;
+            continue;
+        }
+
+        const deviceMatch = line.match(/\]\s*\[(\d+)\]\s*(.+)$/);
+        if (inAudioSection && deviceMatch) {
+            const name = deviceMatch[2].trim();
+            devices.push({ id: idType === 'index' ? deviceMatch[1] : name, label: name });
+        }
+    }
+
+    return devices;
+}
+
+/**
+ * Lists the capture devices a backend can record from
+ * @param backend The backend whose device naming should be used
+ * @returns The devices, or an empty list if the listing tool is not installed
+ */
+export async function listInputDevices(backend: RecorderBackend): Promise<InputDevice[]> {
+    try {
+        return await BACKENDS[backend].listDevices();
+    } catch (error) {
+        console.error(`Failed to list input devices for ${backend}:`, error);
+        return [];
+    }
+}
+
+// Function to check if a command line tool can be started
+function isCommandAvailable(command: string, versionArgs: string[]): Promise<boolean> {
+    return new Promise<boolean>((resolve) => {
+        const process = child_process.spawn(command, versionArgs);
+        process.on('error', () => resolve(false));
+        process.on('close', () => resolve(true));
+    });
+}
+
+/**
+ * Detects which recording backends are installed on this machine
+ * @returns The installed backends in auto-detection order
+ */
+export async function detectAvailableBackends(): Promise<RecorderBackend[]> {
+    if (availableBackendsCache) {
+        return availableBackendsCache;
+    }
+
+    const platform = os.platform();
+    const candidates = AUTO_DETECT_ORDER.filter(backend => BACKENDS[backend].platforms.includes(platform));
+    const availability = new Map<string, Promise<boolean>>();
+    const available: RecorderBackend[] = [];
+
+    for (const backend of candidates) {
+        const { command, versionArgs } = BACKENDS[backend];
+        if (!availability.has(command)) {
+            availability.set(command, isCommandAvailable(command, versionArgs));
+        }
+        if (await availability.get(command)) {
+            available.push(backend);
+        }
+    }
+
+    console.log(`Available recording backends: ${available.join(', ') || 'none'}`);
+    availableBackendsCache = available;
+    return available;
+}
+
+/**
+ * Checks whether a value names a known backend
+ */
+export function isRecorderBackend(value: string): value is RecorderBackend {
+    return Object.prototype.hasOwnProperty.call(BACKENDS, value);
+}
+
+/**
+ * Returns the display label of a backend
+ */
+export function getBackendLabel(backend: RecorderBackend): string {
+    return BACKENDS[backend].label;
+}
+
+/**
+ * Returns all backends that can run on this platform, installed or not
+ */
+export function getPlatformBackends(): RecorderBackend[] {
+    const platform = os.platform();
+    return AUTO_DETECT_ORDER.filter(backend => BACKENDS[backend].platforms.includes(platform));
+}
+
+/**
+ * Resolves the backend selected in the settings
+ * @returns The backend, or an error message if no usable backend is found
+ */
+export async function resolveRecorderBackend(): Promise<RecorderBackend | string> {
+    const config = vscode.workspace.getConfiguration('whisperToClipboard');
+    const configured = config.get<string>('recorderBackend', 'auto');
+    const platform = os.platform();
+
+    if (configured !== 'auto') {
+        const backend = configured;
+        if (!isRecorderBackend(backend)) {
+            return `Unknown recording backend "${configured}".`;
+        }
+        if (!BACKENDS[backend].platforms.includes(platform)) {
+            return `Recording backend "${BACKENDS[backend].label}" is not supported on ${platform}.`;
+        }
+        return backend;
+    }
+
+    const available = await detectAvailableBackends();
+    if (available.length === 0) {
+        if (platform === 'darwin') {
+            return 'No recording tool found. Please install SoX (brew install sox).';
+        } else if (platform === 'linux') {
+            return 'No recording tool found. Please install pulseaudio-utils, pipewire, alsa-utils, sox or ffmpeg.';
+        }
+        return platform === 'win32'
+            ? 'Windows recording is not yet implemented.'
+            : `Unsupported platform: ${platform}`;
+    }
+
+    return available[0];
+}
+
+/**
+ * Creates a recorder for the backend selected in the settings
+ * @returns The recorder, or an error message if no usable backend is found
+ */
+export async function createRecorder(): Promise<Recorder | string> {
+    const backend = await resolveRecorderBackend();
+    if (!isRecorderBackend(backend)) {
+        return backend;
+    }
+    return new ProcessRecorder(backend);
+}
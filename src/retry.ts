@@ -0,0 +1,160 @@
+/**
+ * This module retries API calls that fail for temporary reasons (rate limits,
+ * server errors, network problems) with exponential backoff, honouring the
+ * rate-limit headers sent by the server.
+ */
+
+/**
+ * Settings for withRetry
+ */
+export interface RetryOptions {
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    // Stops retrying (and waiting) once aborted
+    signal?: AbortSignal;
+    onRetry?(attempt: number, delayMs: number, error: any): void;
+}
+
+const RETRYABLE_NETWORK_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE'];
+
+/**
+ * Checks whether an error is worth retrying
+ * @param error The error thrown by the API call
+ */
+export function isRetryableError(error: any): boolean {
+    if (!error) {
+        return false;
+    }
+
+    const status: number | undefined = error.status;
+    if (typeof status === 'number') {
+        return status === 408 || status === 409 || status === 429 || status >= 500;
+    }
+
+    // The OpenAI client reports network failures without a status
+    if (error.name === 'APIConnectionError' || error.name === 'APIConnectionTimeoutError') {
+        return true;
+    }
+    const code = error.code || error.cause?.code;
+    return typeof code === 'string' && RETRYABLE_NETWORK_CODES.includes(code);
+}
+
+/**
+ * Checks whether a failed transcription may succeed when it is tried again later, so the
+ * recording is worth keeping: temporary failures, and authentication errors that go away
+ * once the API key is fixed
+ * @param error The error the transcription failed with
+ */
+export function isRecoverableError(error: any): boolean {
+    if (!error) {
+        return false;
+    }
+    if (isRetryableError(error) || error.status === 401 || error.status === 403) {
+        return true;
+    }
+    // Errors that wrap the failure of a request, e.g. when all chunks failed
+    return error.cause !== undefined && error.cause !== error && isRecoverableError(error.cause);
+}
+
+// Function to parse durations like "1s", "6m0s" or "250ms" from x-ratelimit-reset-* headers
+function parseResetDuration(value: string): number | undefined {
+    let totalMs = 0;
+    let matched = false;
+    const pattern = /([\d.]+)(ms|s|m|h)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(value)) !== null) {
+        matched = true;
+        const amount = parseFloat(match[1]);
+        const unitMs = match[2] === 'ms' ? 1 : match[2] === 's' ? 1000 : match[2] === 'm' ? 60000 : 3600000;
+        totalMs += amount * unitMs;
+    }
+
+    return matched ? totalMs : undefined;
+}
+
+// Function to read the wait time the server asked for, if any
+function getServerRequestedDelayMs(error: any): number | undefined {
+    const headers: Record<string, string> | undefined = error?.headers;
+    if (!headers) {
+        return undefined;
+    }
+
+    const retryAfterMs = parseFloat(headers['retry-after-ms']);
+    if (!isNaN(retryAfterMs)) {
+        return retryAfterMs;
+    }
+
+    const retryAfter = headers['retry-after'];
+    if (retryAfter) {
+        const seconds = parseFloat(retryAfter);
+        if (!isNaN(seconds)) {
+            return seconds * 1000;
+        }
+        const date = Date.parse(retryAfter);
+        if (!isNaN(date)) {
+            return Math.max(0, date - Date.now());
+        }
+    }
+
+    const reset = headers['x-ratelimit-reset-requests'] || headers['x-ratelimit-reset-tokens'];
+    return reset ? parseResetDuration(reset) : undefined;
+}
+
+/**
+ * Computes how long to wait before the next attempt
+ * @param error The error of the failed attempt
+ * @param attempt The number of the failed attempt, starting at 0
+ * @param options The retry settings
+ */
+export function getRetryDelayMs(error: any, attempt: number, options: RetryOptions): number {
+    const requested = getServerRequestedDelayMs(error);
+    if (requested !== undefined) {
+        return Math.min(requested, options.maxDelayMs);
+    }
+
+    // Exponential backoff with jitter so parallel requests don't retry in lockstep
+    const exponential = options.baseDelayMs * Math.pow(2, attempt);
+    const jitter = Math.random() * options.baseDelayMs;
+    return Math.min(exponential + jitter, options.maxDelayMs);
+}
+
+// Function to wait for a while, returning early if the signal is aborted
+function sleep(delayMs: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+        const timer = setTimeout(done, delayMs);
+        signal?.addEventListener('abort', done);
+
+        function done() {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', done);
+            resolve();
+        }
+    });
+}
+
+/**
+ * Runs an async operation, retrying it on temporary failures
+ * @param operation The operation to run
+ * @param options The retry settings
+ * @returns The operation's result
+ */
+export async function withRetry<T>(operation: () => Promise<T>, options: RetryOptions): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await operation();
+        } catch (error) {
+            if (attempt >= options.maxRetries || !isRetryableError(error) || options.signal?.aborted) {
+                throw error;
+            }
+
+            const delayMs = getRetryDelayMs(error, attempt, options);
+            options.onRetry?.(attempt + 1, delayMs, error);
+            await sleep(delayMs, options.signal);
+            if (options.signal?.aborted) {
+                throw error;
+            }
+        }
+    }
+}
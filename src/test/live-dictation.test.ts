@@ -0,0 +1,154 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { LiveDictation } from '../live-dictation';
+import { createOpenAIClient } from '../openai-client';
+import { OpenAITranscriptionProvider } from '../transcription-provider';
+import { TextEditor, env, openEditor, setConfiguration } from './vscode-stub';
+
+/**
+ * A transcription request as the stub server received it
+ */
+interface ReceivedRequest {
+    prompt: string;
+    // Length of the PCM data in the uploaded WAV file
+    dataLength: number;
+}
+
+// Sample rate of the pushed audio; one second is 2000 bytes
+const SAMPLE_RATE = 1000;
+const ONE_SECOND = Buffer.alloc(SAMPLE_RATE * 2);
+
+// Function to read the prompt and the audio length from a multipart transcription request
+function parseRequest(body: Buffer): ReceivedRequest {
+    const prompt = body.toString('latin1').match(/name="prompt"\r\n\r\n([\s\S]*?)\r\n--/);
+    const riff = body.indexOf('RIFF');
+    return { prompt: prompt ? prompt[1] : '', dataLength: body.readUInt32LE(riff + 40) };
+}
+
+// Function to wait until a condition holds, failing the test if it takes too long
+async function waitFor(condition: () => boolean, description: string): Promise<void> {
+    const deadline = Date.now() + 2000;
+    while (!condition()) {
+        if (Date.now() > deadline) {
+            throw new Error(`Timed out waiting for ${description}`);
+        }
+        await new Promise(resolve => setTimeout(resolve, 10));
+    }
+}
+
+// Function to get the ghost text shown in an editor, and where it is shown
+function ghostText(editor: TextEditor): { text: string, offset: number } | undefined {
+    const options = [...editor.decorations.values()][0] ?? [];
+    if (options.length === 0) {
+        return undefined;
+    }
+    return { text: options[0].renderOptions.after.contentText, offset: editor.document.offsetAt(options[0].range.start) };
+}
+
+describe('LiveDictation', () => {
+    let server: http.Server;
+    let received: ReceivedRequest[];
+    let replies: string[];
+    let provider: OpenAITranscriptionProvider;
+
+    before(async () => {
+        server = http.createServer((request, response) => {
+            const body: Buffer[] = [];
+            request.on('data', (data: Buffer) => body.push(data));
+            request.on('end', () => {
+                received.push(parseRequest(Buffer.concat(body)));
+                // Without keep-alive the server can close once the tests are done
+                response.writeHead(200, { 'Content-Type': 'application/json', 'Connection': 'close' });
+                response.end(JSON.stringify({ text: replies.shift() ?? '' }));
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    });
+
+    after(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        received = [];
+        replies = [];
+        const { port } = server.address() as AddressInfo;
+        setConfiguration({ apiBaseUrl: `http://127.0.0.1:${port}/v1` });
+        provider = new OpenAITranscriptionProvider(createOpenAIClient('test-key'));
+    });
+
+    afterEach(() => setConfiguration({}));
+
+    it('previews rolling windows and inserts the final transcript at the anchor', async () => {
+        const editor = openEditor('Before  after', 7);
+        const dictation = new LiveDictation(editor as any, provider, null, SAMPLE_RATE, { intervalSeconds: 0.05, windowSeconds: 2 });
+        try {
+            replies.push('Hello', 'Hello world', 'again');
+
+            // The first second is sent on its own
+            dictation.push(ONE_SECOND);
+            await waitFor(() => ghostText(editor)?.text === 'Hello', 'the first preview');
+            assert.deepStrictEqual(received, [{ prompt: '', dataLength: 2000 }]);
+
+            // The window grows until it is windowSeconds long, then its text is kept
+            dictation.push(ONE_SECOND);
+            await waitFor(() => ghostText(editor)?.text === 'Hello world', 'the full window');
+            assert.deepStrictEqual(received[1], { prompt: '', dataLength: 4000 });
+
+            // The next window starts empty, with the kept text as prompt
+            dictation.push(ONE_SECOND);
+            await waitFor(() => ghostText(editor)?.text === 'Hello world again', 'the next window');
+            assert.deepStrictEqual(received[2], { prompt: 'Hello world', dataLength: 2000 });
+            assert.strictEqual(received.length, 3);
+
+            // Edits before the anchor move it along
+            editor.document.replace(0, 0, 'Note: ');
+            assert.strictEqual(ghostText(editor)?.offset, 13);
+
+            const delivered = await dictation.finish('Hello world, again.');
+            assert.deepStrictEqual(delivered, ['inserted into the editor']);
+            assert.strictEqual(editor.document.getText(), 'Note: Before Hello world, again. after');
+            assert.strictEqual(ghostText(editor), undefined);
+        } finally {
+            dictation.dispose();
+        }
+    });
+
+    it('does not send less than a second of audio', async () => {
+        const editor = openEditor('', 0);
+        const dictation = new LiveDictation(editor as any, provider, null, SAMPLE_RATE, { intervalSeconds: 0.05, windowSeconds: 2 });
+        try {
+            dictation.push(ONE_SECOND.subarray(0, 1000));
+            await new Promise(resolve => setTimeout(resolve, 200));
+            assert.strictEqual(received.length, 0);
+        } finally {
+            dictation.dispose();
+        }
+    });
+
+    it('replaces the inserted transcript when it is finished again', async () => {
+        const editor = openEditor('Start: ', 7);
+        const dictation = new LiveDictation(editor as any, provider, null, SAMPLE_RATE, { intervalSeconds: 0.05, windowSeconds: 2 });
+        await dictation.finish('One [inaudible] three.');
+        dictation.dispose();
+
+        // Failed chunks are retried after the recording has ended
+        const delivered = await dictation.finish('One two three.');
+        assert.deepStrictEqual(delivered, ['replaced in the editor']);
+        assert.strictEqual(editor.document.getText(), 'Start: One two three.');
+    });
+
+    it('copies the transcript to the clipboard if the document was closed', async () => {
+        const editor = openEditor('', 0);
+        const dictation = new LiveDictation(editor as any, provider, null, SAMPLE_RATE, { intervalSeconds: 0.05, windowSeconds: 2 });
+        editor.document.isClosed = true;
+        try {
+            await dictation.finish('Lost and found');
+            assert.strictEqual(await env.clipboard.readText(), 'Lost and found');
+            assert.strictEqual(editor.document.getText(), '');
+        } finally {
+            dictation.dispose();
+        }
+    });
+});
@@ -0,0 +1,147 @@
+import * as assert from 'assert';
+import { applyReplacementRules, applySpokenCommands, postProcessTranscript } from '../post-processing';
+import { setConfiguration } from './vscode-stub';
+
+describe('applyReplacementRules', () => {
+    it('replaces literal text regardless of case', () => {
+        const rules = [{ find: 'react js', replace: 'React.js' }];
+        assert.strictEqual(applyReplacementRules('I use React JS and react js.', rules, null), 'I use React.js and React.js.');
+    });
+
+    it('treats the find text of a literal rule as plain text', () => {
+        const rules = [{ find: 'a.b', replace: 'x' }];
+        assert.strictEqual(applyReplacementRules('a.b acb', rules, null), 'x acb');
+    });
+
+    it('inserts $ in literal replacements as it is', () => {
+        const rules = [{ find: 'dollar sign', replace: '$1 $&' }];
+        assert.strictEqual(applyReplacementRules('type dollar sign', rules, null), 'type $1 $&');
+    });
+
+    it('supports regular expressions with capture groups', () => {
+        const rules = [{ find: 'version (\\d+) point (\\d+)', replace: 'v$1.$2', regex: true }];
+        assert.strictEqual(applyReplacementRules('Release version 2 point 5', rules, null), 'Release v2.5');
+    });
+
+    it('matches case only when caseSensitive is set', () => {
+        const rules = [{ find: 'Go', replace: 'Golang', caseSensitive: true }];
+        assert.strictEqual(applyReplacementRules('Go and go', rules, null), 'Golang and go');
+    });
+
+    it('applies a rule with a language only to transcripts in that language', () => {
+        const rules = [{ find: 'Komma', replace: ',', language: 'de' }];
+        assert.strictEqual(applyReplacementRules('Hallo Komma Welt', rules, 'de'), 'Hallo , Welt');
+        assert.strictEqual(applyReplacementRules('Hallo Komma Welt', rules, 'en'), 'Hallo Komma Welt');
+        assert.strictEqual(applyReplacementRules('Hallo Komma Welt', rules, null), 'Hallo Komma Welt');
+    });
+
+    it('skips rules with an invalid expression and applies the rest', () => {
+        const rules = [
+            { find: '(unclosed', replace: 'x', regex: true },
+            { find: 'foo', replace: 'bar' }
+        ];
+        assert.strictEqual(applyReplacementRules('foo (unclosed', rules, null), 'bar (unclosed');
+    });
+
+    it('applies the rules in order', () => {
+        const rules = [
+            { find: 'one', replace: 'two' },
+            { find: 'two', replace: 'three' }
+        ];
+        assert.strictEqual(applyReplacementRules('one', rules, null), 'three');
+    });
+});
+
+describe('applySpokenCommands', () => {
+    it('turns line break commands between sentences into line breaks', () => {
+        assert.strictEqual(applySpokenCommands('Hello. New line. World.'), 'Hello.\nWorld.');
+        assert.strictEqual(applySpokenCommands('First part, new paragraph, second part.'), 'First part\n\nsecond part.');
+    });
+
+    it('keeps the end of the sentence before a line break', () => {
+        assert.strictEqual(applySpokenCommands('Is that all? New line. Yes!'), 'Is that all?\nYes!');
+        assert.strictEqual(applySpokenCommands('New line. Start'), '\nStart');
+        assert.strictEqual(applySpokenCommands('One. New line. New line. Two.'), 'One.\n\nTwo.');
+    });
+
+    it('leaves line break phrases in ordinary sentences alone', () => {
+        for (const sentence of [
+            'I want a new line here',
+            'Add a new line of code to the loop.',
+            'We need a new paragraph about costs.',
+            'The new line manager starts on Monday, new paragraph or not.'
+        ]) {
+            assert.strictEqual(applySpokenCommands(sentence), sentence);
+        }
+    });
+
+    it('turns brackets and quotes into characters', () => {
+        assert.strictEqual(applySpokenCommands('call open paren x close paren'), 'call (x)');
+        assert.strictEqual(applySpokenCommands('list open bracket 0 close bracket'), 'list [0]');
+        assert.strictEqual(applySpokenCommands('he said open quote hi close quote'), 'he said "hi"');
+    });
+
+    it('keeps the punctuation around brackets and quotes', () => {
+        assert.strictEqual(applySpokenCommands('Open quote hello close quote, he said.'), '"hello", he said.');
+        assert.strictEqual(applySpokenCommands('He said, open quote, hi. Close quote.'), 'He said, "hi".');
+        assert.strictEqual(applySpokenCommands('call open paren x close paren then stop'), 'call (x) then stop');
+    });
+
+    it('leaves sentences without commands unchanged', () => {
+        for (const sentence of [
+            'Hello world, this is a dictation.',
+            'Please open the file and close the editor.',
+            'Is the bracket open? The quote is closed.'
+        ]) {
+            assert.strictEqual(applySpokenCommands(sentence), sentence);
+        }
+    });
+
+    it('joins the words after a casing command', () => {
+        assert.strictEqual(applySpokenCommands('camel case user name'), 'userName');
+        assert.strictEqual(applySpokenCommands('pascal case user name'), 'UserName');
+        assert.strictEqual(applySpokenCommands('snake case user name'), 'user_name');
+        assert.strictEqual(applySpokenCommands('kebab case user name'), 'user-name');
+        assert.strictEqual(applySpokenCommands('constant case max size'), 'MAX_SIZE');
+    });
+
+    it('stops a casing command at punctuation', () => {
+        assert.strictEqual(applySpokenCommands('Name it, camel case user name, then save.'), 'Name it, userName, then save.');
+    });
+
+    it('stops a casing command at a bracket', () => {
+        assert.strictEqual(applySpokenCommands('call open paren camel case get user close paren'), 'call (getUser)');
+        assert.strictEqual(applySpokenCommands('open paren snake case user id close paren'), '(user_id)');
+    });
+
+    it('leaves casing phrases in ordinary sentences alone', () => {
+        for (const sentence of [
+            'use snake case for variables',
+            'We prefer camel case in JavaScript.',
+            'Is kebab case allowed in file names?'
+        ]) {
+            assert.strictEqual(applySpokenCommands(sentence), sentence);
+        }
+    });
+});
+
+describe('postProcessTranscript', () => {
+    afterEach(() => setConfiguration({}));
+
+    it('leaves spoken commands alone unless they are turned on', () => {
+        setConfiguration({});
+        assert.strictEqual(postProcessTranscript('Hello. New line. World.', null), 'Hello. New line. World.');
+        setConfiguration({ spokenCommands: true });
+        assert.strictEqual(postProcessTranscript('Hello. New line. World.', null), 'Hello.\nWorld.');
+    });
+
+    it('applies spoken commands to English transcripts only', () => {
+        setConfiguration({ spokenCommands: true });
+        assert.strictEqual(postProcessTranscript('Hallo. New line. Welt.', 'de'), 'Hallo. New line. Welt.');
+    });
+
+    it('applies the replacement rules before the spoken commands', () => {
+        setConfiguration({ spokenCommands: true, replacementRules: [{ find: 'break here', replace: 'new line' }] });
+        assert.strictEqual(postProcessTranscript('One. Break here. Two.', 'en'), 'One.\nTwo.');
+    });
+});
@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Recorder, RecorderExit, createRecorder } from '../recorder';
+import { readWavInfo } from '../wav';
+import { setConfiguration } from './vscode-stub';
+
+// A stand-in for arecord that writes three chunks of raw samples to stdout,
+// then waits for SIGINT unless FAKE_RECORDER_EXIT is set
+const FAKE_ARECORD = `#!/usr/bin/env node
+const chunk = Buffer.alloc(1000, 7);
+let written = 0;
+const timer = setInterval(() => {
+    process.stdout.write(chunk);
+    if (++written === 3) {
+        clearInterval(timer);
+        if (process.env.FAKE_RECORDER_EXIT) {
+            process.exit(0);
+        }
+    }
+}, 20);
+process.on('SIGINT', () => process.exit(0));
+setTimeout(() => process.exit(1), 5000);
+`;
+
+describe('ProcessRecorder streaming', () => {
+    let folder: string;
+    let originalPath: string | undefined;
+
+    before(() => {
+        folder = fs.mkdtempSync(path.join(os.tmpdir(), 'recorder-test-'));
+        const script = path.join(folder, 'arecord');
+        fs.writeFileSync(script, FAKE_ARECORD);
+        fs.chmodSync(script, 0o755);
+        originalPath = process.env.PATH;
+        process.env.PATH = `${folder}${path.delimiter}${originalPath}`;
+    });
+
+    after(() => {
+        process.env.PATH = originalPath;
+        delete process.env.FAKE_RECORDER_EXIT;
+        fs.rmSync(folder, { recursive: true, force: true });
+    });
+
+    beforeEach(() => setConfiguration({ recorderBackend: 'arecord' }));
+    afterEach(() => setConfiguration({}));
+
+    // Function to start a streaming recording with the fake arecord
+    async function startRecording(outputFile: string): Promise<{ recorder: Recorder, audio: Buffer[], exited: Promise<RecorderExit> }> {
+        const recorder = await createRecorder();
+        assert.ok(typeof recorder !== 'string', recorder as string);
+        const audio: Buffer[] = [];
+        recorder.onDidReceiveAudio(data => audio.push(data));
+        const exited = new Promise<RecorderExit>(resolve => recorder.onDidExit(resolve));
+        recorder.start({ outputFile, sampleRate: '16000', maxDurationSeconds: 60, device: '', stream: true });
+        return { recorder, audio, exited };
+    }
+
+    it('passes the samples on and writes them to a WAV file with the right sizes', async function () {
+        if (os.platform() !== 'linux') {
+            this.skip();
+        }
+        const outputFile = path.join(folder, 'stopped.wav');
+        const { recorder, audio, exited } = await startRecording(outputFile);
+
+        const deadline = Date.now() + 2000;
+        while (Buffer.concat(audio).length < 3000 && Date.now() < deadline) {
+            await new Promise(resolve => setTimeout(resolve, 10));
+        }
+        await recorder.stop();
+        assert.deepStrictEqual(await exited, { code: 0, stoppedByUser: true });
+
+        assert.strictEqual(Buffer.concat(audio).length, 3000);
+        const info = readWavInfo(outputFile);
+        assert.ok(info);
+        assert.strictEqual(info.sampleRate, 16000);
+        assert.strictEqual(info.channels, 1);
+        assert.strictEqual(info.dataLength, 3000);
+
+        // The placeholder sizes in the header were replaced by the real ones
+        const header = fs.readFileSync(outputFile);
+        assert.strictEqual(header.readUInt32LE(4), header.length - 8);
+        assert.strictEqual(header.readUInt32LE(info.dataOffset - 4), 3000);
+        assert.ok(header.subarray(info.dataOffset).equals(Buffer.alloc(3000, 7)));
+    });
+
+    it('finalizes the WAV file when the tool exits by itself', async function () {
+        if (os.platform() !== 'linux') {
+            this.skip();
+        }
+        process.env.FAKE_RECORDER_EXIT = '1';
+        const outputFile = path.join(folder, 'exited.wav');
+        const { exited } = await startRecording(outputFile);
+
+        assert.deepStrictEqual(await exited, { code: 0, stoppedByUser: false });
+        const header = fs.readFileSync(outputFile);
+        assert.strictEqual(header.readUInt32LE(4), header.length - 8);
+        assert.strictEqual(readWavInfo(outputFile)?.dataLength, 3000);
+    });
+});
@@ -0,0 +1,17 @@
+import * as path from 'path';
+
+/**
+ * Loaded by mocha before the tests (see the test script in package.json).
+ * The vscode module only exists inside the editor, so it is replaced with vscode-stub.
+ */
+
+const Module = require('module');
+const resolveFilename = Module._resolveFilename;
+const stubPath = path.join(__dirname, 'vscode-stub.js');
+
+Module._resolveFilename = function (request: string, ...rest: unknown[]) {
+    if (request === 'vscode') {
+        return stubPath;
+    }
+    return resolveFilename.call(this, request, ...rest);
+};
@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import { transcribeAudio } from '../transcriber';
+import { TranscriptionProvider, TranscriptionRequest, TranscriptionResult, toLanguageCode } from '../transcription-provider';
+
+// A provider that answers with the result given for each file
+function fakeProvider(results: Record<string, TranscriptionResult>): TranscriptionProvider {
+    return {
+        name: 'Fake',
+        canTranslate: false,
+        transcribe: async (request: TranscriptionRequest) => results[request.file]
+    };
+}
+
+const autoDetect = { code: null, description: 'Auto-detect' };
+
+describe('toLanguageCode', () => {
+    it('turns the language names of the OpenAI API into codes', () => {
+        assert.strictEqual(toLanguageCode('english'), 'en');
+        assert.strictEqual(toLanguageCode('German'), 'de');
+        assert.strictEqual(toLanguageCode('haitian creole'), 'ht');
+    });
+
+    it('keeps codes as they are', () => {
+        assert.strictEqual(toLanguageCode('de'), 'de');
+        assert.strictEqual(toLanguageCode('yue'), 'yue');
+    });
+
+    it('returns undefined for unknown languages', () => {
+        assert.strictEqual(toLanguageCode('klingon'), undefined);
+        assert.strictEqual(toLanguageCode(undefined), undefined);
+    });
+});
+
+describe('transcribeAudio', () => {
+    it('reports the language detected in a single recording', async () => {
+        const provider = fakeProvider({ 'a.wav': { text: 'Hallo Welt', language: 'de' } });
+        const outcome = await transcribeAudio([{ file: 'a.wav', startSeconds: 0, overlapSeconds: 0 }], provider, autoDetect);
+        assert.strictEqual(outcome.language, 'de');
+    });
+
+    it('reports the language of the first chunk with speech', async () => {
+        const provider = fakeProvider({
+            'a.wav': { text: '' },
+            'b.wav': { text: 'Bonjour', language: 'fr' },
+            'c.wav': { text: 'Hello', language: 'en' }
+        });
+        const outcome = await transcribeAudio([
+            { file: 'a.wav', startSeconds: 0, overlapSeconds: 0 },
+            { file: 'b.wav', startSeconds: 10, overlapSeconds: 0 },
+            { file: 'c.wav', startSeconds: 20, overlapSeconds: 0 }
+        ], provider, autoDetect);
+        assert.strictEqual(outcome.language, 'fr');
+    });
+
+    it('leaves the language unknown if the provider doesn\'t report it', async () => {
+        const provider = fakeProvider({ 'a.wav': { text: 'Hello' } });
+        const outcome = await transcribeAudio([{ file: 'a.wav', startSeconds: 0, overlapSeconds: 0 }], provider, autoDetect);
+        assert.strictEqual(outcome.language, undefined);
+    });
+});
@@ -0,0 +1,128 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AUDIO_FORMATS } from '../audio-splitter';
+import { UploadPlan, planUpload, prepareUpload } from '../upload-planner';
+import { writeWavFile } from '../wav';
+
+// Stand-ins for FFmpeg: ffmpeg reports a version, or starts writing its output file and hangs;
+// ffprobe fails, so splitting can't find the duration
+const FAKE_FFMPEG = `#!/bin/sh
+if [ "$1" = "-version" ]; then
+    echo "ffmpeg version fake"
+    exit 0
+fi
+for last; do :; done
+echo partial > "$last"
+exec sleep 5
+`;
+const FAKE_FFPROBE = `#!/bin/sh
+echo "ffprobe is broken" >&2
+exit 1
+`;
+
+const SAMPLE_RATE = 44100;
+const FLAC_BYTES_PER_SECOND = AUDIO_FORMATS.flac.estimateBytesPerSecond(SAMPLE_RATE);
+
+describe('planUpload', () => {
+    let folder: string;
+    let originalPath: string | undefined;
+
+    // Function to write a silent 44.1 kHz recording of the given length
+    function writeRecording(name: string, seconds: number): string {
+        const file = path.join(folder, name);
+        writeWavFile(file, Buffer.alloc(SAMPLE_RATE * 2 * seconds), SAMPLE_RATE);
+        return file;
+    }
+
+    before(() => {
+        folder = fs.mkdtempSync(path.join(os.tmpdir(), 'upload-planner-test-'));
+        for (const [name, script] of [['ffmpeg', FAKE_FFMPEG], ['ffprobe', FAKE_FFPROBE]]) {
+            fs.writeFileSync(path.join(folder, name), script);
+            fs.chmodSync(path.join(folder, name), 0o755);
+        }
+        originalPath = process.env.PATH;
+        process.env.PATH = `${folder}${path.delimiter}${originalPath}`;
+    });
+
+    after(() => {
+        process.env.PATH = originalPath;
+        fs.rmSync(folder, { recursive: true, force: true });
+    });
+
+    beforeEach(function () {
+        if (os.platform() === 'win32') {
+            this.skip();
+        }
+    });
+
+    it('splits a short recording that is too big even when compressed into chunks that fit', async () => {
+        // 20 s are 1.7 MB as WAV and about 1 MB as FLAC
+        const file = writeRecording('short.wav', 20);
+        const maxUploadBytes = 500 * 1024;
+        const plan = await planUpload(file, { maxUploadBytes, chunkDurationSeconds: 600, compressionFormat: 'flac' });
+
+        assert.ok(typeof plan !== 'string', plan as string);
+        assert.strictEqual(plan.strategy, 'chunk');
+        assert.strictEqual(plan.format, 'flac');
+        assert.ok(plan.chunkDurationSeconds < 20);
+        assert.ok(plan.chunkDurationSeconds * FLAC_BYTES_PER_SECOND <= maxUploadBytes);
+    });
+
+    it('shortens the chunks of a long recording when compressed chunks would not fit', async () => {
+        const file = writeRecording('long.wav', 40);
+        const maxUploadBytes = 1024 * 1024;
+        const plan = await planUpload(file, { maxUploadBytes, chunkDurationSeconds: 30, compressionFormat: 'flac' });
+
+        assert.ok(typeof plan !== 'string', plan as string);
+        assert.strictEqual(plan.strategy, 'chunk');
+        assert.strictEqual(plan.format, 'flac');
+        assert.ok(plan.chunkDurationSeconds < 30);
+        assert.ok(plan.chunkDurationSeconds * FLAC_BYTES_PER_SECOND <= maxUploadBytes);
+    });
+
+    it('keeps the configured chunk duration when the chunks fit', async () => {
+        const file = writeRecording('fits.wav', 40);
+        const plan = await planUpload(file, { maxUploadBytes: 25 * 1024 * 1024, chunkDurationSeconds: 30, compressionFormat: 'flac' });
+
+        assert.ok(typeof plan !== 'string', plan as string);
+        assert.strictEqual(plan.strategy, 'chunk');
+        assert.strictEqual(plan.format, 'wav');
+        assert.strictEqual(plan.chunkDurationSeconds, 30);
+    });
+
+    it('does not fall back to a recording that is over the upload limit', async () => {
+        const file = writeRecording('unsplittable.wav', 20);
+        const plan: UploadPlan = {
+            strategy: 'chunk',
+            format: 'flac',
+            durationSeconds: 20,
+            originalBytes: fs.statSync(file).size,
+            estimatedBytes: 20 * FLAC_BYTES_PER_SECOND,
+            chunkDurationSeconds: 8,
+            maxUploadBytes: 500 * 1024
+        };
+
+        await assert.rejects(prepareUpload(file, plan, 0, -40), /upload limit/);
+    });
+
+    it('stops compressing when cancelled and deletes the partial file', async () => {
+        const file = writeRecording('cancelled.wav', 2);
+        const plan: UploadPlan = {
+            strategy: 'compress',
+            format: 'flac',
+            durationSeconds: 2,
+            originalBytes: fs.statSync(file).size,
+            estimatedBytes: 2 * FLAC_BYTES_PER_SECOND,
+            chunkDurationSeconds: 60
+        };
+        const abort = new AbortController();
+        setTimeout(() => abort.abort(), 200);
+
+        const started = Date.now();
+        await assert.rejects(prepareUpload(file, plan, 0, -40, abort.signal), { name: 'AbortError' });
+        assert.ok(Date.now() - started < 2000);
+        assert.deepStrictEqual(fs.readdirSync(folder).filter(name => name.startsWith('cancelled.wav_')), []);
+    });
+});
@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import { getVoiceCommands, goToLine, matchVoiceCommand } from '../voice-commands';
+import { Position, openEditor, window } from './vscode-stub';
+
+// Function to get the line the spoken "go to line" command would go to
+function spokenLine(transcript: string): unknown {
+    const match = matchVoiceCommand(transcript, getVoiceCommands());
+    assert.strictEqual(match?.voiceCommand.command, 'whisper-to-clipboard.goToLine', `no go to line match for "${transcript}"`);
+    return match.captures.number;
+}
+
+describe('matchVoiceCommand', () => {
+    it('captures a line number written as digits', () => {
+        assert.strictEqual(spokenLine('Go to line 120.'), 120);
+    });
+
+    it('captures line numbers written in words', () => {
+        assert.strictEqual(spokenLine('go to line seven'), 7);
+        assert.strictEqual(spokenLine('go to line twenty five'), 25);
+        assert.strictEqual(spokenLine('go to line forty-two'), 42);
+        assert.strictEqual(spokenLine('go to line one hundred and twelve'), 112);
+        assert.strictEqual(spokenLine('go to line two thousand three hundred'), 2300);
+    });
+
+    it('does not read words that are no number as one', () => {
+        assert.strictEqual(matchVoiceCommand('go to line five five', getVoiceCommands()), undefined);
+        assert.strictEqual(matchVoiceCommand('go to line twenty twenty', getVoiceCommands()), undefined);
+        assert.strictEqual(matchVoiceCommand('go to line the end', getVoiceCommands()), undefined);
+    });
+});
+
+describe('goToLine', () => {
+    afterEach(() => {
+        window.activeTextEditor = undefined;
+    });
+
+    it('moves the cursor to the first character of the line and reveals it', () => {
+        const editor = openEditor('first\nsecond\n    third\nfourth', 0);
+        window.activeTextEditor = editor;
+
+        goToLine(3);
+        assert.deepStrictEqual(editor.selection.active, new Position(2, 4));
+        assert.deepStrictEqual(editor.revealedRanges.map(range => range.start), [new Position(2, 4)]);
+    });
+
+    it('stays within the document', () => {
+        const editor = openEditor('first\nsecond', 0);
+        window.activeTextEditor = editor;
+
+        goToLine(99);
+        assert.strictEqual(editor.selection.active.line, 1);
+        goToLine(0);
+        assert.strictEqual(editor.selection.active.line, 0);
+    });
+});
@@ -0,0 +1,214 @@
+/**
+ * A minimal stand-in for the vscode module, so that the extension's modules can be
+ * tested with plain Node. setup.ts makes `import * as vscode from 'vscode'` resolve
+ * to this file. Only what the tested modules use is implemented.
+ */
+
+// Settings returned by workspace.getConfiguration, keyed without the whisperToClipboard prefix
+let configuration: Record<string, unknown> = {};
+
+// Function to replace the settings the tested code sees
+export function setConfiguration(values: Record<string, unknown>): void {
+    configuration = { ...values };
+}
+
+export class Disposable {
+    constructor(private readonly callOnDispose: () => void = () => undefined) {}
+
+    dispose(): void {
+        this.callOnDispose();
+    }
+}
+
+export class EventEmitter<T> {
+    private listeners: ((event: T) => void)[] = [];
+
+    readonly event = (listener: (event: T) => void): Disposable => {
+        this.listeners.push(listener);
+        return new Disposable(() => {
+            this.listeners = this.listeners.filter(other => other !== listener);
+        });
+    };
+
+    fire(event: T): void {
+        for (const listener of [...this.listeners]) {
+            listener(event);
+        }
+    }
+
+    dispose(): void {
+        this.listeners = [];
+    }
+}
+
+export class Position {
+    constructor(readonly line: number, readonly character: number) {}
+}
+
+export class Range {
+    constructor(readonly start: Position, readonly end: Position) {}
+}
+
+export class Selection extends Range {
+    constructor(readonly anchor: Position, readonly active: Position) {
+        super(anchor, active);
+    }
+}
+
+export enum TextEditorRevealType {
+    Default,
+    InCenter,
+    InCenterIfOutsideViewport,
+    AtTop
+}
+
+export class ThemeColor {
+    constructor(readonly id: string) {}
+}
+
+export class Uri {
+    private constructor(readonly fsPath: string) {}
+
+    static file(fsPath: string): Uri {
+        return new Uri(fsPath);
+    }
+}
+
+/**
+ * An in-memory document, edited through workspace.applyEdit
+ */
+export class TextDocument {
+    readonly uri: Uri;
+    isClosed = false;
+
+    constructor(private text: string, name: string = 'untitled') {
+        this.uri = Uri.file(name);
+    }
+
+    get lineCount(): number {
+        return this.text.split('\n').length;
+    }
+
+    getText(): string {
+        return this.text;
+    }
+
+    lineAt(line: number): { text: string, firstNonWhitespaceCharacterIndex: number } {
+        const text = this.text.split('\n')[line];
+        return { text, firstNonWhitespaceCharacterIndex: text.length - text.trimStart().length };
+    }
+
+    offsetAt(position: Position): number {
+        const lines = this.text.split('\n');
+        let offset = 0;
+        for (let line = 0; line < position.line && line < lines.length; line++) {
+            offset += lines[line].length + 1;
+        }
+        return Math.min(this.text.length, offset + position.character);
+    }
+
+    positionAt(offset: number): Position {
+        const before = this.text.slice(0, Math.max(0, Math.min(offset, this.text.length))).split('\n');
+        return new Position(before.length - 1, before[before.length - 1].length);
+    }
+
+    // Function to replace a stretch of the text and tell the listeners, like an edit in the editor
+    replace(offset: number, length: number, text: string): void {
+        this.text = this.text.slice(0, offset) + text + this.text.slice(offset + length);
+        didChangeTextDocument.fire({
+            document: this,
+            contentChanges: [{ rangeOffset: offset, rangeLength: length, text }]
+        });
+    }
+}
+
+/**
+ * An editor showing a document; decorations set on it are kept by decoration type,
+ * and the ranges it was asked to reveal in order
+ */
+export class TextEditor {
+    readonly decorations = new Map<TextEditorDecorationType, any[]>();
+    readonly revealedRanges: Range[] = [];
+
+    constructor(readonly document: TextDocument, public selection: { active: Position }) {}
+
+    setDecorations(type: TextEditorDecorationType, options: any[]): void {
+        this.decorations.set(type, options);
+    }
+
+    revealRange(range: Range, _revealType?: TextEditorRevealType): void {
+        this.revealedRanges.push(range);
+    }
+}
+
+export class TextEditorDecorationType extends Disposable {
+    constructor(readonly options: any) {
+        super();
+    }
+}
+
+export class WorkspaceEdit {
+    readonly edits: { uri: Uri, range: Range, text: string }[] = [];
+
+    insert(uri: Uri, position: Position, text: string): void {
+        this.edits.push({ uri, range: new Range(position, position), text });
+    }
+
+    replace(uri: Uri, range: Range, text: string): void {
+        this.edits.push({ uri, range, text });
+    }
+}
+
+const didChangeTextDocument = new EventEmitter<any>();
+const didChangeVisibleTextEditors = new EventEmitter<TextEditor[]>();
+const documents: TextDocument[] = [];
+
+export const workspace = {
+    workspaceFolders: undefined as { uri: Uri }[] | undefined,
+    getConfiguration: (_section?: string) => ({
+        get: <T>(key: string, defaultValue?: T): T | undefined =>
+            key in configuration ? configuration[key] as T : defaultValue
+    }),
+    onDidChangeTextDocument: didChangeTextDocument.event,
+    applyEdit: async (edit: WorkspaceEdit): Promise<boolean> => {
+        for (const { uri, range, text } of edit.edits) {
+            const document = documents.find(candidate => candidate.uri === uri);
+            if (!document || document.isClosed) {
+                return false;
+            }
+            const start = document.offsetAt(range.start);
+            document.replace(start, document.offsetAt(range.end) - start, text);
+        }
+        return true;
+    }
+};
+
+export const window = {
+    activeTextEditor: undefined as TextEditor | undefined,
+    visibleTextEditors: [] as TextEditor[],
+    onDidChangeVisibleTextEditors: didChangeVisibleTextEditors.event,
+    createTextEditorDecorationType: (options: any) => new TextEditorDecorationType(options),
+    setStatusBarMessage: (_text: string, _timeout?: number) => new Disposable(),
+    showInformationMessage: async (..._args: any[]) => undefined,
+    showWarningMessage: async (..._args: any[]) => undefined,
+    showErrorMessage: async (..._args: any[]) => undefined
+};
+
+let clipboardText = '';
+export const env = {
+    clipboard: {
+        readText: async () => clipboardText,
+        writeText: async (text: string) => {
+            clipboardText = text;
+        }
+    }
+};
+
+// Function to open a document in an editor with the cursor at the given offset
+export function openEditor(text: string, cursorOffset: number): TextEditor {
+    const document = new TextDocument(text, `untitled-${documents.length + 1}`);
+    documents.push(document);
+    const editor = new TextEditor(document, { active: document.positionAt(cursorOffset) });
+    window.visibleTextEditors = [...window.visibleTextEditors, editor];
+    return editor;
+}
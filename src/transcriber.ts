@@ -0,0 +1,421 @@
+import * as vscode from 'vscode';
+import { AudioChunk } from './audio-splitter';
+import { TranscriptionProvider, TranscriptionResult, TranscriptionSegment } from './transcription-provider';
+import { containsSpeech, getVadSettings } from './vad';
+import { withRetry } from './retry';
+
+/**
+ * This module turns a recording, or the chunks of a long recording, into text.
+ * Chunks are transcribed in parallel with retries; chunks that still fail are
+ * marked in the text and can be retried on their own later.
+ */
+
+/**
+ * The transcript of one chunk
+ */
+export interface ChunkTranscript {
+    chunk: AudioChunk;
+    // Null if the chunk failed; empty if it contained no speech
+    text: string | null;
+    // True if words from the overlap with the previous chunk were already removed
+    dedupedByTimestamps: boolean;
+    // Segment timings within the chunk, if they were requested and the provider returned them
+    segments?: TranscriptionSegment[];
+    // Code of the language the provider detected in the chunk
+    language?: string;
+    error?: string;
+    // What a failed chunk threw, to tell temporary failures from permanent ones
+    failure?: unknown;
+}
+
+/**
+ * The combined result of transcribing all chunks of a recording
+ */
+export interface TranscriptionOutcome {
+    text: string;
+    chunks: ChunkTranscript[];
+    failedCount: number;
+    // The prompt the chunks were transcribed with, reused when failed chunks are retried
+    prompt: string;
+    // Whether the speech was translated into English rather than transcribed
+    translated: boolean;
+    // Segment timings within the whole recording, if they were requested
+    segments?: TranscriptionSegment[];
+    // Code of the language the provider detected, if it reports one
+    language?: string;
+}
+
+/**
+ * Optional settings for transcribeAudio
+ */
+export interface TranscribeOptions {
+    // Transcripts of an earlier attempt; only the chunks that failed then are sent again
+    previous?: TranscriptionOutcome;
+    // Vocabulary that tells Whisper how terms are spelled
+    prompt?: string;
+    // Translate the speech into English; the provider must be able to
+    translate?: boolean;
+    // Collect segment timings for timestamped transcripts
+    segments?: boolean;
+    // Cancels the transcription; the promise then rejects with TranscriptionCancelledError
+    signal?: AbortSignal;
+}
+
+/**
+ * Thrown when a transcription is aborted through its signal
+ */
+export class TranscriptionCancelledError extends Error {
+    constructor() {
+        super('Transcription cancelled');
+        this.name = 'TranscriptionCancelledError';
+    }
+}
+
+/**
+ * Thrown when a recording holds no speech, or Whisper only returned its prompt.
+ * Sending the recording again would give the same result.
+ */
+export class NoSpeechError extends Error {
+    constructor(message: string = 'No speech detected in the recording') {
+        super(message);
+        this.name = 'NoSpeechError';
+    }
+}
+
+/**
+ * Concurrency and retry settings for chunk uploads
+ */
+interface TranscriptionSettings {
+    concurrency: number;
+    maxRetries: number;
+}
+
+const PROMPT_ECHOES = [
+    "This is a voice recording that may contain multiple sentences.",
+    "This is a voice recording that may contain multiple sentences. Transcribe exactly what was said."
+];
+
+// Function to check if Whisper returned its prompt instead of a transcript, which happens for silent audio
+function isPromptEcho(text: string, prompt: string): boolean {
+    const trimmed = text.trim();
+    return PROMPT_ECHOES.includes(trimmed) || (prompt.length > 0 && trimmed === prompt.trim());
+}
+
+// Function to get the configured concurrency and retry settings
+function getTranscriptionSettings(): TranscriptionSettings {
+    const config = vscode.workspace.getConfiguration('whisperToClipboard');
+    return {
+        concurrency: Math.max(1, config.get<number>('maxConcurrentUploads', 3)),
+        maxRetries: Math.max(0, config.get<number>('maxRetries', 3))
+    };
+}
+
+// Function to format seconds as mm:ss for transcript markers
+function formatTimestamp(totalSeconds: number): string {
+    const seconds = Math.max(0, Math.floor(totalSeconds));
+    return `${Math.floor(seconds / 60).toString().padStart(2, '0')}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+// Function to build the marker that stands in for a chunk that could not be transcribed
+function inaudibleMarker(chunk: AudioChunk): string {
+    const start = chunk.startSeconds + chunk.overlapSeconds;
+    return chunk.endSeconds !== undefined
+        ? `[inaudible ${formatTimestamp(start)}–${formatTimestamp(chunk.endSeconds)}]`
+        : `[inaudible from ${formatTimestamp(start)}]`;
+}
+
+// Function to drop the words at the start of a chunk that were already transcribed with the previous chunk
+function removeOverlappingWords(result: TranscriptionResult, overlapSeconds: number): string {
+    const words = result.words || [];
+    const firstKept = words.findIndex(word => (word.start + word.end) / 2 >= overlapSeconds);
+    if (firstKept < 0) {
+        return '';
+    }
+    if (firstKept === 0) {
+        return result.text;
+    }
+
+    // Word entries carry no punctuation, so cut the text itself when its words line up with the word list
+    const textWords = result.text.trim().split(/\s+/);
+    if (textWords.length === words.length) {
+        return textWords.slice(firstKept).join(' ');
+    }
+    return words.slice(firstKept).map(word => word.word.trim()).join(' ');
+}
+
+// Function to run an async function over items with at most `limit` calls in flight
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+
+    const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index], index);
+        }
+    });
+
+    await Promise.all(workers);
+    return results;
+}
+
+// Function to join chunk transcripts, de-duplicating text at the seams
+function combineChunkTranscripts(transcripts: ChunkTranscript[]): string {
+    let combinedTranscription = '';
+
+    transcripts.forEach((transcript, i) => {
+        if (transcript.text === null) {
+            const marker = inaudibleMarker(transcript.chunk);
+            combinedTranscription = combinedTranscription ? `${combinedTranscription} ${marker}` : marker;
+            return;
+        }
+
+        const chunkText = transcript.text;
+        if (!chunkText || chunkText.trim().length === 0) {
+            return;
+        }
+
+        // Smart joining of chunks to avoid duplicate text or broken sentences
+        if (!combinedTranscription) {
+            // First chunk with text
+            combinedTranscription = chunkText;
+        } else if (transcript.dedupedByTimestamps || transcripts[i - 1]?.text === null) {
+            // Chunks are cut in pauses, so the text continues with a plain space
+            combinedTranscription += ' ' + chunkText.trim();
+        } else {
+            // Check for overlap with previous chunk
+            const lastWords = combinedTranscription.split(' ').slice(-5).join(' ').toLowerCase();
+            const firstWords = chunkText.split(' ').slice(0, 5).join(' ').toLowerCase();
+
+            if (lastWords.includes(firstWords) || firstWords.includes(lastWords)) {
+                // There's overlap, find a good joining point
+                const overlapIndex = chunkText.toLowerCase().indexOf(lastWords);
+                if (overlapIndex > 0) {
+                    combinedTranscription += ' ' + chunkText.substring(overlapIndex + lastWords.length);
+                } else {
+                    combinedTranscription += ' ' + chunkText;
+                }
+            } else {
+                // No obvious overlap, just join with space if needed
+                combinedTranscription += (combinedTranscription.endsWith('.') || chunkText.startsWith('.') ||
+                                        combinedTranscription.endsWith('!') || chunkText.startsWith('!') ||
+                                        combinedTranscription.endsWith('?') || chunkText.startsWith('?') ||
+                                        combinedTranscription.endsWith(',') || chunkText.startsWith(','))
+                    ? ' ' + chunkText
+                    : '. ' + chunkText;
+            }
+        }
+    });
+
+    return combinedTranscription;
+}
+
+// Function to merge the segments of all chunks into segments of the whole recording.
+// Segments mostly spoken in a chunk's overlap belong to the previous chunk and are dropped;
+// a chunk without segment timings becomes a single segment, a failed chunk an [inaudible] one.
+function mergeChunkSegments(transcripts: ChunkTranscript[]): TranscriptionSegment[] {
+    const merged: TranscriptionSegment[] = [];
+
+    for (const { chunk, text, segments } of transcripts) {
+        const chunkStart = chunk.startSeconds + chunk.overlapSeconds;
+        const chunkEnd = chunk.endSeconds ?? chunkStart;
+
+        if (text === null) {
+            merged.push({ start: chunkStart, end: chunkEnd, text: inaudibleMarker(chunk) });
+        } else if (!segments) {
+            if (text.trim().length > 0) {
+                merged.push({ start: chunkStart, end: chunkEnd, text: text.trim() });
+            }
+        } else {
+            for (const segment of segments) {
+                if ((segment.start + segment.end) / 2 < chunk.overlapSeconds || segment.text.length === 0) {
+                    continue;
+                }
+                merged.push({
+                    start: chunk.startSeconds + segment.start,
+                    end: chunk.startSeconds + segment.end,
+                    text: segment.text
+                });
+            }
+        }
+    }
+
+    return merged;
+}
+
+/**
+ * Transcribes a recording, or the chunks of a long recording, and combines the results
+ * @param audioChunks The chunks to transcribe (a single chunk for short recordings)
+ * @param provider The transcription backend
+ * @param languageMode The configured language
+ * @param options An earlier attempt to complete, the prompt and a cancellation signal
+ * @returns The combined text and the per-chunk results
+ */
+export async function transcribeAudio(
+    audioChunks: AudioChunk[],
+    provider: TranscriptionProvider,
+    languageMode: { code: string | null, description: string },
+    options: TranscribeOptions = {}
+): Promise<TranscriptionOutcome> {
+    const signal = options.signal;
+    const previous = options.previous?.chunks;
+    const prompt = options.previous?.prompt ?? options.prompt ?? '';
+    const translate = options.previous?.translated ?? options.translate ?? false;
+    const withSegments = options.previous ? options.previous.segments !== undefined : options.segments ?? false;
+    const settings = getTranscriptionSettings();
+    const retryOptions = {
+        maxRetries: settings.maxRetries,
+        baseDelayMs: 1000,
+        maxDelayMs: 60000,
+        signal,
+        onRetry: (attempt: number, delayMs: number, error: any) => {
+            console.warn(`Transcription request failed (${error?.status ?? error?.message}), retry ${attempt}/${settings.maxRetries} in ${Math.round(delayMs)}ms`);
+        }
+    };
+
+    if (audioChunks.length === 1 && !previous) {
+        // Single file transcription
+        console.log(`Transcribing single audio file with ${provider.name}`);
+
+        if (languageMode.code) {
+            console.log(`Using specific language for transcription: ${languageMode.description}`);
+        } else {
+            console.log('Using automatic language detection for transcription');
+        }
+
+        try {
+            const { text: result, segments, language } = await withRetry(() => provider.transcribe({
+                file: audioChunks[0].file,
+                language: languageMode.code,
+                // The vocabulary prompt only lists terms, so it is unlikely to be included in the output
+                prompt,
+                segmentTimestamps: withSegments,
+                translate,
+                signal
+            }), retryOptions);
+
+            // Validate the result
+            if (!result || result.trim().length === 0) {
+                console.warn('Received empty transcription from Whisper API');
+                throw new NoSpeechError();
+            }
+
+            // Check if the result is just the prompt repeated
+            if (isPromptEcho(result, prompt)) {
+                console.warn('Transcription appears to be just the prompt text');
+                throw new NoSpeechError('No actual speech detected, only received the prompt text back');
+            }
+
+            console.log(`Transcription successful: ${result.length} characters`);
+            const chunks: ChunkTranscript[] = [{ chunk: audioChunks[0], text: result, dedupedByTimestamps: false, segments, language }];
+            return {
+                text: result,
+                chunks,
+                failedCount: 0,
+                prompt,
+                translated: translate,
+                segments: withSegments ? mergeChunkSegments(chunks) : undefined,
+                language
+            };
+        } catch (error) {
+            if (signal?.aborted) {
+                throw new TranscriptionCancelledError();
+            }
+            console.error('Error during single file transcription:', error);
+            throw error;
+        }
+    }
+
+    // Multiple chunks transcription. Chunks are sent in parallel, so instead of the previous
+    // chunk's text as a prompt, each chunk gets the overlap with the previous one as context.
+    console.log(`Transcribing ${audioChunks.length} audio chunks, up to ${settings.concurrency} at a time`);
+    const vad = getVadSettings();
+    let completed = 0;
+
+    const transcripts = await mapWithConcurrency(audioChunks, settings.concurrency, async (chunk, i): Promise<ChunkTranscript> => {
+        // Chunks that succeeded in an earlier attempt are kept as they are
+        if (previous && previous[i] && previous[i].text !== null) {
+            return previous[i];
+        }
+        if (signal?.aborted) {
+            return { chunk, text: null, dedupedByTimestamps: false, error: 'Cancelled' };
+        }
+
+        // Silent chunks are skipped, Whisper tends to hallucinate text for them
+        if (vad.enabled && !containsSpeech(chunk.file, vad.thresholdDb)) {
+            console.log(`Chunk ${i+1} contains only silence, skipping`);
+            return { chunk, text: '', dedupedByTimestamps: false };
+        }
+
+        try {
+            // Translations come without word timings
+            const useTimestamps = i > 0 && chunk.overlapSeconds > 0 && !translate;
+            const chunkResult = await withRetry(() => provider.transcribe({
+                file: chunk.file,
+                language: languageMode.code,
+                prompt,
+                wordTimestamps: useTimestamps,
+                segmentTimestamps: withSegments,
+                translate,
+                signal
+            }), retryOptions);
+
+            // With word timings, the words spoken in the overlap are removed exactly
+            const dedupedByTimestamps = useTimestamps && !!chunkResult.words && chunkResult.words.length > 0;
+            let chunkText = dedupedByTimestamps
+                ? removeOverlappingWords(chunkResult, chunk.overlapSeconds)
+                : chunkResult.text;
+
+            // Check if the result is just the prompt repeated
+            if (isPromptEcho(chunkText, prompt)) {
+                console.warn(`Chunk ${i+1} returned only the prompt text, skipping`);
+                chunkText = '';
+            }
+
+            console.log(`Chunk ${i+1} transcription: ${chunkText.length} characters`);
+            return {
+                chunk,
+                text: chunkText,
+                dedupedByTimestamps,
+                segments: chunkText ? chunkResult.segments : [],
+                language: chunkText ? chunkResult.language : undefined
+            };
+        } catch (error: any) {
+            console.error(`Error transcribing chunk ${i+1}:`, error);
+            return { chunk, text: null, dedupedByTimestamps: false, error: error?.message ?? String(error), failure: error };
+        } finally {
+            completed++;
+            vscode.window.setStatusBarMessage(`Transcribed chunk ${completed}/${audioChunks.length}...`, 3000);
+        }
+    });
+
+    if (signal?.aborted) {
+        throw new TranscriptionCancelledError();
+    }
+
+    const failedCount = transcripts.filter(transcript => transcript.text === null).length;
+    if (failedCount === transcripts.length) {
+        // Keep the cause, it tells whether trying again later can help
+        throw Object.assign(
+            new Error(`Failed to transcribe any audio content from the chunks: ${transcripts[0].error}`),
+            { cause: transcripts[0].failure }
+        );
+    }
+
+    const combinedTranscription = combineChunkTranscripts(transcripts);
+    if (failedCount === 0 && (!combinedTranscription || combinedTranscription.trim().length === 0)) {
+        throw new NoSpeechError('No speech detected in any of the chunks');
+    }
+
+    console.log(`Combined transcription complete: ${combinedTranscription.length} characters, ${failedCount} failed chunks`);
+    return {
+        text: combinedTranscription,
+        chunks: transcripts,
+        failedCount,
+        prompt,
+        translated: translate,
+        segments: withSegments ? mergeChunkSegments(transcripts) : undefined,
+        // The language of the first chunk with speech stands for the recording
+        language: transcripts.find(transcript => transcript.language)?.language
+    };
+}
@@ -0,0 +1,72 @@
+import { TranscriptionSegment } from './transcription-provider';
+
+/**
+ * This module formats timestamped transcripts as subtitles (SRT, WebVTT),
+ * Markdown with [mm:ss] markers, or the raw segments as JSON.
+ */
+
+/**
+ * Formats a timestamped transcript can be exported in
+ */
+export type TranscriptFormat = 'srt' | 'vtt' | 'markdown' | 'json';
+
+/**
+ * The formats in the order they are offered, with the language of the document they open in
+ */
+export const TRANSCRIPT_FORMATS: { format: TranscriptFormat, label: string, description: string, language: string }[] = [
+    { format: 'srt', label: 'SRT', description: 'SubRip subtitles', language: 'plaintext' },
+    { format: 'vtt', label: 'WebVTT', description: 'Web video subtitles', language: 'plaintext' },
+    { format: 'markdown', label: 'Markdown', description: 'Paragraphs with [mm:ss] markers', language: 'markdown' },
+    { format: 'json', label: 'JSON', description: 'The raw segments with start and end in seconds', language: 'json' }
+];
+
+// Function to format seconds as hh:mm:ss with milliseconds, separated by a comma for SRT and a dot for WebVTT
+function formatCueTime(totalSeconds: number, separator: ',' | '.'): string {
+    const milliseconds = Math.max(0, Math.round(totalSeconds * 1000));
+    const hours = Math.floor(milliseconds / 3600000);
+    const minutes = Math.floor(milliseconds / 60000) % 60;
+    const seconds = Math.floor(milliseconds / 1000) % 60;
+    const pad = (value: number, length: number = 2) => value.toString().padStart(length, '0');
+    return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(milliseconds % 1000, 3)}`;
+}
+
+// Function to format seconds as mm:ss, or h:mm:ss for recordings over an hour
+function formatMarker(totalSeconds: number): string {
+    const seconds = Math.max(0, Math.floor(totalSeconds));
+    const pad = (value: number) => value.toString().padStart(2, '0');
+    const hours = Math.floor(seconds / 3600);
+    const clock = `${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}`;
+    return hours > 0 ? `${hours}:${clock}` : clock;
+}
+
+// Function to give every cue at least a moment on screen, subtitle players skip cues that end before they start
+function cueEnd(segment: TranscriptionSegment): number {
+    return Math.max(segment.end, segment.start + 0.5);
+}
+
+/**
+ * Formats the segments of a transcript
+ * @param segments Segments with times within the whole recording
+ * @param format The format to produce
+ * @returns The document content
+ */
+export function formatTranscript(segments: TranscriptionSegment[], format: TranscriptFormat): string {
+    switch (format) {
+        case 'srt':
+            return segments.map((segment, i) =>
+                `${i + 1}\n${formatCueTime(segment.start, ',')} --> ${formatCueTime(cueEnd(segment), ',')}\n${segment.text}\n`
+            ).join('\n');
+        case 'vtt':
+            return 'WEBVTT\n\n' + segments.map(segment =>
+                `${formatCueTime(segment.start, '.')} --> ${formatCueTime(cueEnd(segment), '.')}\n${segment.text}\n`
+            ).join('\n');
+        case 'markdown':
+            return segments.map(segment => `[${formatMarker(segment.start)}] ${segment.text}`).join('\n\n') + '\n';
+        case 'json':
+            return JSON.stringify(segments.map(segment => ({
+                start: Number(segment.start.toFixed(3)),
+                end: Number(segment.end.toFixed(3)),
+                text: segment.text
+            })), null, 2) + '\n';
+    }
+}
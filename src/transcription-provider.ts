@@ -0,0 +1,391 @@
+import * as vscode from 'vscode';
+import { OpenAI } from 'openai';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as child_process from 'child_process';
+
+/**
+ * This module provides the transcription backends used by the extension.
+ * The OpenAI Whisper API is the default; a local whisper.cpp / faster-whisper
+ * binary can be used instead for offline work.
+ */
+
+/**
+ * A single transcription call for one audio file
+ */
+export interface TranscriptionRequest {
+    file: string;
+    language: string | null;
+    prompt: string;
+    // Ask for per-word timings; providers that can't produce them return text only
+    wordTimestamps?: boolean;
+    // Ask for per-segment timings; providers that can't produce them return text only
+    segmentTimestamps?: boolean;
+    // Translate the speech into English instead of transcribing it; only for providers that canTranslate
+    translate?: boolean;
+    // Aborts the upload or kills the local process
+    signal?: AbortSignal;
+}
+
+/**
+ * A word and its position in the transcribed file, in seconds
+ */
+export interface TranscriptionWord {
+    word: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * A stretch of speech (usually a sentence) and its position, in seconds
+ */
+export interface TranscriptionSegment {
+    start: number;
+    end: number;
+    text: string;
+}
+
+/**
+ * The text of one transcription call, with word and segment timings if they were requested and available
+ */
+export interface TranscriptionResult {
+    text: string;
+    words?: TranscriptionWord[];
+    segments?: TranscriptionSegment[];
+    // Code of the language the provider detected, if it reports one
+    language?: string;
+}
+
+// Language names used by Whisper's verbose_json responses, by language code
+const WHISPER_LANGUAGES: Record<string, string> = {
+    en: 'english', zh: 'chinese', de: 'german', es: 'spanish', ru: 'russian', ko: 'korean', fr: 'french',
+    ja: 'japanese', pt: 'portuguese', tr: 'turkish', pl: 'polish', ca: 'catalan', nl: 'dutch', ar: 'arabic',
+    sv: 'swedish', it: 'italian', id: 'indonesian', hi: 'hindi', fi: 'finnish', vi: 'vietnamese', he: 'hebrew',
+    uk: 'ukrainian', el: 'greek', ms: 'malay', cs: 'czech', ro: 'romanian', da: 'danish', hu: 'hungarian',
+    ta: 'tamil', no: 'norwegian', th: 'thai', ur: 'urdu', hr: 'croatian', bg: 'bulgarian', lt: 'lithuanian',
+    la: 'latin', mi: 'maori', ml: 'malayalam', cy: 'welsh', sk: 'slovak', te: 'telugu', fa: 'persian',
+    lv: 'latvian', bn: 'bengali', sr: 'serbian', az: 'azerbaijani', sl: 'slovenian', kn: 'kannada',
+    et: 'estonian', mk: 'macedonian', br: 'breton', eu: 'basque', is: 'icelandic', hy: 'armenian',
+    ne: 'nepali', mn: 'mongolian', bs: 'bosnian', kk: 'kazakh', sq: 'albanian', sw: 'swahili', gl: 'galician',
+    mr: 'marathi', pa: 'punjabi', si: 'sinhala', km: 'khmer', sn: 'shona', yo: 'yoruba', so: 'somali',
+    af: 'afrikaans', oc: 'occitan', ka: 'georgian', be: 'belarusian', tg: 'tajik', sd: 'sindhi',
+    gu: 'gujarati', am: 'amharic', yi: 'yiddish', lo: 'lao', uz: 'uzbek', fo: 'faroese', ht: 'haitian creole',
+    ps: 'pashto', tk: 'turkmen', nn: 'nynorsk', mt: 'maltese', sa: 'sanskrit', lb: 'luxembourgish',
+    my: 'myanmar', bo: 'tibetan', tl: 'tagalog', mg: 'malagasy', as: 'assamese', tt: 'tatar', haw: 'hawaiian',
+    ln: 'lingala', ha: 'hausa', ba: 'bashkir', jw: 'javanese', su: 'sundanese', yue: 'cantonese'
+};
+
+/**
+ * Turns the language a provider reports into a language code. The OpenAI API reports
+ * names like "english", local engines report codes like "en".
+ * @returns The code, or undefined if the language isn't known
+ */
+export function toLanguageCode(language: unknown): string | undefined {
+    if (typeof language !== 'string') {
+        return undefined;
+    }
+    const normalized = language.trim().toLowerCase();
+    if (normalized in WHISPER_LANGUAGES) {
+        return normalized;
+    }
+    return Object.keys(WHISPER_LANGUAGES).find(code => WHISPER_LANGUAGES[code] === normalized);
+}
+
+// Function to read the segments of a verbose_json response
+function readSegments(response: any): TranscriptionSegment[] | undefined {
+    if (!Array.isArray(response?.segments)) {
+        return undefined;
+    }
+    return response.segments.map((segment: any) => ({
+        start: Number(segment.start),
+        end: Number(segment.end),
+        text: String(segment.text ?? '').trim()
+    }));
+}
+
+/**
+ * A backend that turns an audio file into text
+ */
+export interface TranscriptionProvider {
+    readonly name: string;
+    // Largest file the backend accepts, undefined if there is no limit
+    readonly maxUploadBytes?: number;
+    // Whether the backend can translate speech into English itself
+    readonly canTranslate: boolean;
+    transcribe(request: TranscriptionRequest): Promise<TranscriptionResult>;
+}
+
+/**
+ * Transcribes audio through the OpenAI Whisper API
+ */
+export class OpenAITranscriptionProvider implements TranscriptionProvider {
+    readonly name = 'OpenAI Whisper API';
+    readonly maxUploadBytes = 25 * 1024 * 1024;
+    readonly canTranslate: boolean;
+    // Set once the model rejected verbose_json, so that timestamps aren't requested with every call
+    private verboseUnsupported = false;
+
+    constructor(private readonly client: OpenAI, private readonly model: string = "whisper-1") {
+        // The translations endpoint only works with the Whisper models
+        this.canTranslate = model.startsWith('whisper');
+    }
+
+    async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+        if (request.translate) {
+            return this.createTranslation(request);
+        }
+        let rejected = false;
+        if ((request.wordTimestamps || request.segmentTimestamps) && !this.verboseUnsupported) {
+            try {
+                return await this.createTranscription(request, true);
+            } catch (error: any) {
+                // Newer transcription models don't support verbose_json
+                if (error.status !== 400 || request.signal?.aborted) {
+                    throw error;
+                }
+                console.log(`Model ${this.model} rejected timestamps, retrying without them`);
+                rejected = true;
+            }
+        }
+        const result = await this.createTranscription(request, false);
+        // Only when the request succeeds without timestamps was it the format that was rejected
+        this.verboseUnsupported ||= rejected;
+        return result;
+    }
+
+    private async createTranscription(request: TranscriptionRequest, verbose: boolean): Promise<TranscriptionResult> {
+        const apiParams: any = {
+            file: fs.createReadStream(request.file),
+            model: this.model,
+            response_format: verbose ? "verbose_json" : "json",
+            temperature: 0.0,
+            prompt: request.prompt
+        };
+
+        if (verbose) {
+            apiParams.timestamp_granularities = [
+                ...(request.wordTimestamps ? ['word'] : []),
+                ...(request.segmentTimestamps ? ['segment'] : [])
+            ];
+        }
+
+        if (request.language) {
+            apiParams.language = request.language;
+        }
+
+        const transcription = await this.client.audio.transcriptions.create(apiParams, { signal: request.signal });
+
+        // Handle the response based on format
+        if (typeof transcription === 'string') {
+            return { text: transcription };
+        } else if (transcription && typeof transcription === 'object') {
+            // Extract text (and words and segments for verbose_json) from JSON response
+            const words = (transcription as any).words as TranscriptionWord[] | undefined;
+            return {
+                text: transcription.text || '',
+                words,
+                segments: readSegments(transcription),
+                language: toLanguageCode((transcription as any).language)
+            };
+        }
+        return { text: '' };
+    }
+
+    private async createTranslation(request: TranscriptionRequest): Promise<TranscriptionResult> {
+        // The translations endpoint always produces English and takes no language
+        const translation = await this.client.audio.translations.create({
+            file: fs.createReadStream(request.file),
+            model: this.model,
+            // verbose_json adds segment timings, translations have no word timings
+            response_format: request.segmentTimestamps ? "verbose_json" : "json",
+            temperature: 0.0,
+            prompt: request.prompt
+        }, { signal: request.signal });
+
+        if (typeof translation === 'string') {
+            return { text: translation };
+        }
+        return { text: translation?.text || '', segments: readSegments(translation) };
+    }
+}
+
+/**
+ * Settings for the local transcription provider
+ */
+export interface LocalWhisperOptions {
+    engine: 'whisper.cpp' | 'faster-whisper';
+    binaryPath: string;
+    modelPath: string;
+}
+
+/**
+ * Transcribes audio by running a local whisper.cpp or faster-whisper binary.
+ * Nothing leaves the machine.
+ */
+export class LocalWhisperProvider implements TranscriptionProvider {
+    readonly name: string;
+    readonly canTranslate = true;
+
+    constructor(private readonly options: LocalWhisperOptions) {
+        this.name = `Local ${options.engine}`;
+    }
+
+    async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+        return this.options.engine === 'faster-whisper'
+            ? this.transcribeWithFasterWhisper(request)
+            : this.transcribeWithWhisperCpp(request);
+    }
+
+    private async transcribeWithWhisperCpp(request: TranscriptionRequest): Promise<TranscriptionResult> {
+        // whisper.cpp only accepts 16kHz mono WAV input
+        const inputFile = await resampleForWhisperCpp(request.file, request.signal);
+
+        const args = [
+            '-m', this.options.modelPath,
+            '-f', inputFile,
+            '-l', request.language || 'auto',
+            '--no-prints'
+        ];
+        // With timestamps every line of the output starts with [hh:mm:ss.mmm --> hh:mm:ss.mmm]
+        if (!request.segmentTimestamps) {
+            args.push('--no-timestamps');
+        }
+        if (request.translate) {
+            args.push('--translate');
+        }
+        if (request.prompt) {
+            args.push('--prompt', request.prompt);
+        }
+
+        try {
+            const output = await runCommand(this.options.binaryPath, args, request.signal);
+            const lines = output.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+            if (!request.segmentTimestamps) {
+                return { text: lines.join(' ') };
+            }
+
+            const segments: TranscriptionSegment[] = [];
+            for (const line of lines) {
+                const match = line.match(/^\[(\d+):(\d+):([\d.]+)\s*-->\s*(\d+):(\d+):([\d.]+)\]\s*(.*)$/);
+                if (match) {
+                    segments.push({
+                        start: Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]),
+                        end: Number(match[4]) * 3600 + Number(match[5]) * 60 + Number(match[6]),
+                        text: match[7].trim()
+                    });
+                }
+            }
+            return { text: segments.map(segment => segment.text).join(' '), segments };
+        } finally {
+            if (inputFile !== request.file) {
+                fs.promises.unlink(inputFile).catch(() => undefined);
+            }
+        }
+    }
+
+    private async transcribeWithFasterWhisper(request: TranscriptionRequest): Promise<TranscriptionResult> {
+        // whisper-ctranslate2 is the command line front end for faster-whisper
+        const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'whisper-local-'));
+        // The JSON output has the text and the segments with their timings
+        const outputFormat = request.segmentTimestamps ? 'json' : 'txt';
+        const args = [
+            request.file,
+            '--model_directory', this.options.modelPath,
+            '--output_format', outputFormat,
+            '--output_dir', outputDir
+        ];
+        if (request.language) {
+            args.push('--language', request.language);
+        }
+        if (request.translate) {
+            args.push('--task', 'translate');
+        }
+        if (request.prompt) {
+            args.push('--initial_prompt', request.prompt);
+        }
+
+        try {
+            await runCommand(this.options.binaryPath, args, request.signal);
+            const outputFile = path.join(outputDir, `${path.parse(request.file).name}.${outputFormat}`);
+            const output = fs.readFileSync(outputFile, 'utf8');
+            if (request.segmentTimestamps) {
+                const parsed = JSON.parse(output);
+                return { text: String(parsed.text ?? '').trim(), segments: readSegments(parsed), language: toLanguageCode(parsed.language) };
+            }
+            return { text: output.split('\n').map(line => line.trim()).filter(line => line.length > 0).join(' ') };
+        } finally {
+            fs.rmSync(outputDir, { recursive: true, force: true });
+        }
+    }
+}
+
+// Function to get the transcription provider selected in the settings
+export function getConfiguredProviderKind(): 'openai' | 'local' {
+    const config = vscode.workspace.getConfiguration('whisperToClipboard');
+    return config.get<string>('provider', 'openai') === 'local' ? 'local' : 'openai';
+}
+
+// Function to read and validate the local provider settings
+export function getLocalWhisperOptions(): LocalWhisperOptions | string {
+    const config = vscode.workspace.getConfiguration('whisperToClipboard');
+    const engine = config.get<string>('localEngine', 'whisper.cpp') === 'faster-whisper' ? 'faster-whisper' : 'whisper.cpp';
+    const binaryPath = config.get<string>('localBinaryPath', '') || (engine === 'faster-whisper' ? 'whisper-ctranslate2' : 'whisper-cli');
+    const modelPath = config.get<string>('localModelPath', '');
+
+    if (!modelPath) {
+        return 'No local Whisper model configured. Please set "whisperToClipboard.localModelPath".';
+    }
+    if (!fs.existsSync(modelPath)) {
+        return `Local Whisper model not found at ${modelPath}.`;
+    }
+
+    return { engine, binaryPath, modelPath };
+}
+
+// Function to run a command and return its stdout
+function runCommand(command: string, args: string[], signal?: AbortSignal): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+        // With a signal, aborting kills the process and rejects with an AbortError
+        const process = child_process.spawn(command, args, { signal });
+        let output = '';
+        let errorOutput = '';
+
+        process.stdout.on('data', (data) => {
+            output += data.toString();
+        });
+
+        process.stderr.on('data', (data) => {
+            errorOutput += data.toString();
+        });
+
+        process.on('close', (code) => {
+            if (code === 0) {
+                resolve(output);
+            } else {
+                console.error(`${command} error output:`, errorOutput);
+                reject(new Error(`${command} exited with code ${code}: ${errorOutput}`));
+            }
+        });
+
+        process.on('error', (err) => {
+            console.error(`${command} process error:`, err);
+            reject(err);
+        });
+    });
+}
+
+// Function to convert audio to 16kHz mono WAV with ffmpeg, falling back to the original file
+async function resampleForWhisperCpp(inputFile: string, signal?: AbortSignal): Promise<string> {
+    const outputFile = `${inputFile}_16k.wav`;
+    try {
+        await runCommand('ffmpeg', ['-i', inputFile, '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le', '-y', outputFile], signal);
+        return outputFile;
+    } catch (error) {
+        if (signal?.aborted) {
+            throw error;
+        }
+        console.log('Could not resample audio for whisper.cpp, using original file:', error);
+        return inputFile;
+    }
+}
@@ -0,0 +1,202 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { readWavInfo } from './wav';
+import {
+    AudioChunk,
+    AudioFormat,
+    AUDIO_FORMATS,
+    getAudioDuration,
+    isFFmpegInstalled,
+    splitAudioFile,
+    transcodeAudio
+} from './audio-splitter';
+
+/**
+ * This module decides how a recording is sent for transcription, based on its
+ * real size and duration: as-is, converted to a compact format, or in chunks.
+ */
+
+/**
+ * How a recording will be sent for transcription
+ */
+export interface UploadPlan {
+    strategy: 'as-is' | 'compress' | 'chunk';
+    format: AudioFormat;
+    durationSeconds: number;
+    originalBytes: number;
+    estimatedBytes: number;
+    // Longest chunk when chunking, short enough for each chunk to fit the upload limit
+    chunkDurationSeconds: number;
+    // Largest file the provider accepts, undefined for no limit
+    maxUploadBytes?: number;
+}
+
+/**
+ * Limits and preferences used to plan an upload
+ */
+export interface UploadLimits {
+    // Largest file the provider accepts, undefined for no limit
+    maxUploadBytes?: number;
+    // Recordings longer than this are transcribed in chunks
+    chunkDurationSeconds: number;
+    compressionFormat: AudioFormat;
+}
+
+// Whisper API price per minute of audio (see README)
+const WHISPER_PRICE_PER_MINUTE = 0.006;
+// Keep some distance to the hard limit, the size estimates for compressed formats are rough
+const SIZE_SAFETY_FACTOR = 0.9;
+
+// Function to get the configured upload limits (the size limit comes from the provider)
+export function getUploadLimits(maxUploadBytes?: number): UploadLimits {
+    const config = vscode.workspace.getConfiguration('whisperToClipboard');
+    return {
+        maxUploadBytes,
+        chunkDurationSeconds: config.get<number>('chunkDurationSeconds', 60),
+        compressionFormat: config.get<AudioFormat>('compressionFormat', 'flac')
+    };
+}
+
+/**
+ * Inspects a recording and picks the cheapest way to send it that the provider accepts
+ * @param file The recording
+ * @param limits The provider's limits and the configured preferences
+ * @returns The plan, or an error message if the file can't be sent at all
+ */
+export async function planUpload(file: string, limits: UploadLimits): Promise<UploadPlan | string> {
+    const originalBytes = fs.statSync(file).size;
+    const wavInfo = readWavInfo(file);
+    const hasFFmpeg = await isFFmpegInstalled();
+
+    let durationSeconds = wavInfo?.durationSeconds ?? NaN;
+    if (isNaN(durationSeconds) && hasFFmpeg) {
+        durationSeconds = await getAudioDuration(file).catch(() => NaN);
+    }
+
+    const sizeLimit = limits.maxUploadBytes !== undefined ? limits.maxUploadBytes * SIZE_SAFETY_FACTOR : Infinity;
+    const fitsAsIs = originalBytes <= sizeLimit;
+    const isLong = !isNaN(durationSeconds) && durationSeconds > limits.chunkDurationSeconds;
+    const plan = { durationSeconds, originalBytes, chunkDurationSeconds: limits.chunkDurationSeconds, maxUploadBytes: limits.maxUploadBytes };
+
+    if (!hasFFmpeg) {
+        if (!fitsAsIs) {
+            return `Recording is ${formatBytes(originalBytes)}, which is more than the ${formatBytes(limits.maxUploadBytes!)} upload limit. Install FFmpeg so it can be compressed or split.`;
+        }
+        return { ...plan, strategy: 'as-is', format: 'wav', estimatedBytes: originalBytes };
+    }
+
+    // Estimate compressed sizes from the real sample rate; fall back to the ratio to the original size
+    const bytesPerSecond = !isNaN(durationSeconds) && durationSeconds > 0 ? originalBytes / durationSeconds : 0;
+    const sampleRate = wavInfo?.sampleRate ?? 16000;
+    const compressedBytesPerSecond = AUDIO_FORMATS[limits.compressionFormat].estimateBytesPerSecond(sampleRate);
+
+    if (isLong) {
+        // Chunk, and compress the chunks too if uncompressed chunks wouldn't fit
+        const chunkBytes = bytesPerSecond * limits.chunkDurationSeconds;
+        const format: AudioFormat = chunkBytes <= sizeLimit ? 'wav' : limits.compressionFormat;
+        const estimatedBytes = format === 'wav' ? originalBytes : compressedBytesPerSecond * durationSeconds;
+        const chunkDurationSeconds = getFittingChunkDuration(limits.chunkDurationSeconds, sizeLimit,
+            format === 'wav' ? bytesPerSecond : compressedBytesPerSecond);
+        return { ...plan, strategy: 'chunk', format, estimatedBytes, chunkDurationSeconds };
+    }
+
+    if (fitsAsIs) {
+        return { ...plan, strategy: 'as-is', format: 'wav', estimatedBytes: originalBytes };
+    }
+
+    const estimatedBytes = isNaN(durationSeconds)
+        ? originalBytes / 4
+        : compressedBytesPerSecond * durationSeconds;
+    if (estimatedBytes <= sizeLimit) {
+        return { ...plan, strategy: 'compress', format: limits.compressionFormat, estimatedBytes };
+    }
+
+    // Even compressed the recording is too big, so it is split although it isn't long
+    const chunkDurationSeconds = getFittingChunkDuration(limits.chunkDurationSeconds, sizeLimit, compressedBytesPerSecond);
+    return { ...plan, strategy: 'chunk', format: limits.compressionFormat, estimatedBytes, chunkDurationSeconds };
+}
+
+// Function to shorten the chunk duration so that a chunk of the given bytes per second fits the size limit
+function getFittingChunkDuration(chunkDurationSeconds: number, sizeLimit: number, bytesPerSecond: number): number {
+    if (!isFinite(sizeLimit) || bytesPerSecond <= 0) {
+        return chunkDurationSeconds;
+    }
+    return Math.max(1, Math.min(chunkDurationSeconds, Math.floor(sizeLimit / bytesPerSecond)));
+}
+
+/**
+ * Produces the files to transcribe according to a plan
+ * @param file The recording
+ * @param plan The plan from planUpload
+ * @param overlapSeconds Overlap between chunks
+ * @param silenceThresholdDb Level below which audio counts as a pause for chunk boundaries
+ * @param signal Stops FFmpeg; the files written so far are deleted and the promise rejects
+ * @returns The chunks to transcribe; a single chunk unless the plan splits the file
+ * @throws If splitting left a file that is larger than the upload limit
+ */
+export async function prepareUpload(
+    file: string,
+    plan: UploadPlan,
+    overlapSeconds: number,
+    silenceThresholdDb: number,
+    signal?: AbortSignal
+): Promise<AudioChunk[]> {
+    switch (plan.strategy) {
+        case 'compress': {
+            const compressed = await transcodeAudio(file, plan.format, signal);
+            console.log(`Compressed ${formatBytes(plan.originalBytes)} to ${formatBytes(fs.statSync(compressed).size)} (${plan.format})`);
+            return [{ file: compressed, startSeconds: 0, overlapSeconds: 0 }];
+        }
+        case 'chunk': {
+            const chunks = await splitAudioFile(file, plan.chunkDurationSeconds, overlapSeconds, silenceThresholdDb, plan.format, signal);
+            // splitAudioFile falls back to the original file, which the provider may not accept
+            const tooLarge = chunks.find(chunk => plan.maxUploadBytes !== undefined && fs.statSync(chunk.file).size > plan.maxUploadBytes);
+            if (tooLarge) {
+                throw new Error(`Recording could not be split into chunks below the ${formatBytes(plan.maxUploadBytes!)} upload limit.`);
+            }
+            return chunks;
+        }
+        case 'as-is':
+        default:
+            return [{ file, startSeconds: 0, overlapSeconds: 0 }];
+    }
+}
+
+/**
+ * Describes a plan for the user, including the estimated API cost
+ * @param plan The plan from planUpload
+ * @param showCost Whether the Whisper API price applies
+ */
+export function describeUploadPlan(plan: UploadPlan, showCost: boolean): string {
+    const duration = isNaN(plan.durationSeconds) ? 'unknown length' : `${Math.round(plan.durationSeconds)}s`;
+    let description: string;
+
+    switch (plan.strategy) {
+        case 'compress':
+            description = `Compressing ${formatBytes(plan.originalBytes)} recording (${duration}) to ${plan.format.toUpperCase()}, about ${formatBytes(plan.estimatedBytes)}`;
+            break;
+        case 'chunk':
+            description = plan.format === 'wav'
+                ? `Splitting ${formatBytes(plan.originalBytes)} recording (${duration}) into chunks`
+                : `Splitting ${formatBytes(plan.originalBytes)} recording (${duration}) into ${plan.format.toUpperCase()} chunks, about ${formatBytes(plan.estimatedBytes)} in total`;
+            break;
+        case 'as-is':
+        default:
+            description = `Sending ${formatBytes(plan.originalBytes)} recording (${duration}) as-is`;
+            break;
+    }
+
+    if (showCost && !isNaN(plan.durationSeconds)) {
+        const cost = (plan.durationSeconds / 60) * WHISPER_PRICE_PER_MINUTE;
+        description += `, estimated cost $${cost < 0.01 ? cost.toFixed(4) : cost.toFixed(2)}`;
+    }
+    return description;
+}
+
+// Function to format a byte count for messages
+function formatBytes(bytes: number): string {
+    if (bytes >= 1024 * 1024) {
+        return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    }
+    return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+}
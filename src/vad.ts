@@ -0,0 +1,251 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { readWavInfo, WavInfo } from './wav';
+
+/**
+ * This module implements a simple energy based voice-activity detection (VAD).
+ * It watches the recording while it is captured to stop after a stretch of silence,
+ * and trims leading and trailing silence from finished recordings before upload.
+ */
+
+/**
+ * Voice-activity detection settings
+ */
+export interface VadSettings {
+    enabled: boolean;
+    // Frames quieter than this (in dBFS) count as silence
+    thresholdDb: number;
+    // Seconds of silence after speech before recording stops
+    silenceSeconds: number;
+}
+
+// Length of the frames the audio level is measured over
+const FRAME_MS = 30;
+// Silence kept before and after the speech when trimming, so words aren't clipped
+const TRIM_PADDING_SECONDS = 0.3;
+// How often the recording file is checked for new audio
+const POLL_INTERVAL_MS = 250;
+
+// Function to get the configured VAD settings
+export function getVadSettings(): VadSettings {
+    const config = vscode.workspace.getConfiguration('whisperToClipboard');
+    return {
+        enabled: config.get<boolean>('vadEnabled', false),
+        thresholdDb: config.get<number>('vadSilenceThresholdDb', -40),
+        silenceSeconds: config.get<number>('vadSilenceDurationSeconds', 3)
+    };
+}
+
+// Function to measure the level of 16-bit PCM samples in dBFS
+function levelDb(pcm: Buffer, start: number, end: number): number {
+    let sumSquares = 0;
+    let count = 0;
+    for (let i = start; i + 1 < end; i += 2) {
+        const sample = pcm.readInt16LE(i) / 32768;
+        sumSquares += sample * sample;
+        count++;
+    }
+    if (count === 0 || sumSquares === 0) {
+        return -Infinity;
+    }
+    return 10 * Math.log10(sumSquares / count);
+}
+
+// Function to get the number of bytes in one analysis frame
+function frameBytes(info: WavInfo): number {
+    const blockAlign = info.channels * (info.bitsPerSample / 8);
+    return Math.max(blockAlign, Math.round(info.sampleRate * FRAME_MS / 1000) * blockAlign);
+}
+
+// Function to read the PCM data of a 16-bit WAV file
+function readPcm(file: string): { info: WavInfo, pcm: Buffer } | null {
+    const info = readWavInfo(file);
+    if (!info || info.bitsPerSample !== 16) {
+        return null;
+    }
+
+    const pcm = Buffer.alloc(info.dataLength);
+    const fd = fs.openSync(file, 'r');
+    try {
+        fs.readSync(fd, pcm, 0, info.dataLength, info.dataOffset);
+    } finally {
+        fs.closeSync(fd);
+    }
+    return { info, pcm };
+}
+
+/**
+ * Finds the part of a recording that contains speech
+ * @param file The path to a 16-bit PCM WAV file
+ * @param thresholdDb Frames quieter than this count as silence
+ * @returns The byte range of the speech within the data chunk, null if there is no speech,
+ *          or undefined if the file can't be analysed
+ */
+function findSpeechRange(file: string, thresholdDb: number): { info: WavInfo, pcm: Buffer, start: number, end: number } | null | undefined {
+    const audio = readPcm(file);
+    if (!audio) {
+        return undefined;
+    }
+
+    const { info, pcm } = audio;
+    const frameSize = frameBytes(info);
+    let first = -1;
+    let last = -1;
+
+    for (let offset = 0; offset < pcm.length; offset += frameSize) {
+        if (levelDb(pcm, offset, Math.min(offset + frameSize, pcm.length)) > thresholdDb) {
+            if (first < 0) {
+                first = offset;
+            }
+            last = Math.min(offset + frameSize, pcm.length);
+        }
+    }
+
+    if (first < 0) {
+        return null;
+    }
+    return { info, pcm, start: first, end: last };
+}
+
+/**
+ * Checks whether a recording contains anything louder than the silence threshold
+ * @param file The path to a 16-bit PCM WAV file
+ * @param thresholdDb Frames quieter than this count as silence
+ * @returns False only if the whole file is silent; files that can't be analysed count as speech
+ */
+export function containsSpeech(file: string, thresholdDb: number): boolean {
+    return findSpeechRange(file, thresholdDb) !== null;
+}
+
+/**
+ * Removes leading and trailing silence from a WAV file in place
+ * @param file The path to a 16-bit PCM WAV file
+ * @param thresholdDb Frames quieter than this count as silence
+ * @returns The number of seconds removed, or null if the file contains no speech at all
+ */
+export function trimSilence(file: string, thresholdDb: number): number | null {
+    const range = findSpeechRange(file, thresholdDb);
+    if (range === null) {
+        return null;
+    }
+    if (range === undefined) {
+        return 0;
+    }
+
+    const { info, pcm } = range;
+    const blockAlign = info.channels * (info.bitsPerSample / 8);
+    const padding = Math.round(info.sampleRate * TRIM_PADDING_SECONDS) * blockAlign;
+    const start = Math.max(0, range.start - padding);
+    const end = Math.min(pcm.length, range.end + padding);
+
+    if (start === 0 && end === pcm.length) {
+        return 0;
+    }
+
+    const header = Buffer.alloc(info.dataOffset);
+    const fd = fs.openSync(file, 'r');
+    try {
+        fs.readSync(fd, header, 0, info.dataOffset, 0);
+    } finally {
+        fs.closeSync(fd);
+    }
+
+    const speech = pcm.subarray(start, end);
+    header.writeUInt32LE(header.length + speech.length - 8, 4);
+    header.writeUInt32LE(speech.length, info.dataOffset - 4);
+    fs.writeFileSync(file, Buffer.concat([header, speech]));
+
+    const removedSeconds = (pcm.length - speech.length) / (info.sampleRate * blockAlign);
+    console.log(`Trimmed ${removedSeconds.toFixed(1)}s of silence from ${file}`);
+    return removedSeconds;
+}
+
+/**
+ * Watches a WAV file while it is being recorded and reports when the speaker
+ * has been silent for the configured time. Silence before the first word is ignored.
+ */
+export class SilenceMonitor implements vscode.Disposable {
+    private readonly silenceEmitter = new vscode.EventEmitter<void>();
+    private timer: NodeJS.Timeout | null = null;
+    private info: WavInfo | null = null;
+    private readOffset = 0;
+    private pending: Buffer = Buffer.alloc(0);
+    private heardSpeech = false;
+    private silentSeconds = 0;
+
+    readonly onDidDetectSilence = this.silenceEmitter.event;
+
+    constructor(private readonly file: string, private readonly settings: VadSettings) {}
+
+    start(): void {
+        this.timer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+    }
+
+    dispose(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+        this.silenceEmitter.dispose();
+    }
+
+    private poll(): void {
+        try {
+            if (!fs.existsSync(this.file)) {
+                return;
+            }
+            if (!this.info) {
+                // Wait until the recorder has written the header
+                this.info = readWavInfo(this.file);
+                if (!this.info || this.info.bitsPerSample !== 16) {
+                    this.info = null;
+                    return;
+                }
+                this.readOffset = this.info.dataOffset;
+            }
+
+            const size = fs.statSync(this.file).size;
+            if (size <= this.readOffset) {
+                return;
+            }
+
+            const chunk = Buffer.alloc(size - this.readOffset);
+            const fd = fs.openSync(this.file, 'r');
+            try {
+                fs.readSync(fd, chunk, 0, chunk.length, this.readOffset);
+            } finally {
+                fs.closeSync(fd);
+            }
+            this.readOffset = size;
+            this.analyse(Buffer.concat([this.pending, chunk]));
+        } catch (error) {
+            console.error('Voice activity detection failed:', error);
+        }
+    }
+
+    private analyse(pcm: Buffer): void {
+        const info = this.info!;
+        const frameSize = frameBytes(info);
+        const frameSeconds = frameSize / (info.sampleRate * info.channels * 2);
+        let offset = 0;
+
+        for (; offset + frameSize <= pcm.length; offset += frameSize) {
+            if (levelDb(pcm, offset, offset + frameSize) > this.settings.thresholdDb) {
+                this.heardSpeech = true;
+                this.silentSeconds = 0;
+            } else if (this.heardSpeech) {
+                this.silentSeconds += frameSeconds;
+            }
+        }
+        this.pending = pcm.subarray(offset);
+
+        if (this.heardSpeech && this.silentSeconds >= this.settings.silenceSeconds) {
+            console.log(`Detected ${this.silentSeconds.toFixed(1)}s of silence`);
+            if (this.timer) {
+                clearInterval(this.timer);
+                this.timer = null;
+            }
+            this.silenceEmitter.fire();
+        }
+    }
+}
@@ -0,0 +1,132 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * This module builds the prompt that tells Whisper how identifiers, library names
+ * and product terms are spelled. Terms come from the whisperToClipboard.vocabulary
+ * setting, a .whisper-vocab file in the workspace and, optionally, from the active
+ * editor (document symbols, open file names and words near the cursor).
+ */
+
+const VOCABULARY_FILE = '.whisper-vocab';
+// Whisper only looks at the last 224 tokens of the prompt
+const MAX_PROMPT_TOKENS = 224;
+// Lines above and below the cursor searched for identifiers
+const CURSOR_CONTEXT_LINES = 20;
+
+// Function to roughly estimate the number of tokens of a prompt. Identifiers split into
+// more tokens than ordinary words, so this errs on the high side.
+function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 3);
+}
+
+// Function to read the terms of the .whisper-vocab files in the workspace folders (one per line, # starts a comment)
+function readVocabularyFiles(): string[] {
+    const terms: string[] = [];
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+        const file = path.join(folder.uri.fsPath, VOCABULARY_FILE);
+        try {
+            if (!fs.existsSync(file)) {
+                continue;
+            }
+            for (const line of fs.readFileSync(file, 'utf8').split('\n')) {
+                const term = line.replace(/#.*$/, '').trim();
+                if (term) {
+                    terms.push(term);
+                }
+            }
+        } catch (error) {
+            console.error(`Could not read ${file}:`, error);
+        }
+    }
+    return terms;
+}
+
+// Function to check if a word looks like a code identifier rather than an ordinary word
+function isIdentifierLike(word: string): boolean {
+    return word.length >= 3 && (/[a-z][A-Z]/.test(word) || /[_\d]/.test(word));
+}
+
+// Function to collect the names of all symbols in a document, including nested ones
+async function getDocumentSymbolNames(document: vscode.TextDocument): Promise<string[]> {
+    try {
+        const symbols = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[]>(
+            'vscode.executeDocumentSymbolProvider', document.uri
+        );
+        const names: string[] = [];
+        const visit = (symbol: vscode.DocumentSymbol | vscode.SymbolInformation) => {
+            names.push(symbol.name);
+            if ('children' in symbol) {
+                symbol.children.forEach(visit);
+            }
+        };
+        (symbols || []).forEach(visit);
+        return names;
+    } catch (error) {
+        console.log('No document symbols available:', error);
+        return [];
+    }
+}
+
+// Function to collect hints from the active editor: identifiers near the cursor, symbols and open file names
+async function collectEditorHints(): Promise<string[]> {
+    const hints: string[] = [];
+    const editor = vscode.window.activeTextEditor;
+
+    if (editor) {
+        const document = editor.document;
+        const cursorLine = editor.selection.active.line;
+        const range = new vscode.Range(
+            Math.max(0, cursorLine - CURSOR_CONTEXT_LINES), 0,
+            Math.min(document.lineCount - 1, cursorLine + CURSOR_CONTEXT_LINES), Number.MAX_SAFE_INTEGER
+        );
+        const words = document.getText(range).match(/[A-Za-z_][A-Za-z0-9_]*/g) || [];
+        hints.push(...words.filter(isIdentifierLike));
+
+        hints.push(...(await getDocumentSymbolNames(document)).filter(name => name.length >= 3));
+    }
+
+    for (const document of vscode.workspace.textDocuments) {
+        if (document.uri.scheme === 'file') {
+            hints.push(path.basename(document.uri.fsPath));
+        }
+    }
+    return hints;
+}
+
+/**
+ * Builds the prompt for the configured vocabulary and, if enabled, hints from the active editor
+ * @returns The prompt, within Whisper's prompt token limit; empty if there is no vocabulary
+ */
+export async function buildVocabularyPrompt(): Promise<string> {
+    const config = vscode.workspace.getConfiguration('whisperToClipboard');
+    const configured = config.get<string[]>('vocabulary', []).map(term => term.trim()).filter(term => term.length > 0);
+
+    // Configured terms come first so they survive when the limit is reached
+    const candidates = [...configured, ...readVocabularyFiles()];
+    if (config.get<boolean>('vocabularyFromEditor', false)) {
+        candidates.push(...await collectEditorHints());
+    }
+
+    const terms: string[] = [];
+    const seen = new Set<string>();
+    let tokens = 0;
+    for (const term of candidates) {
+        if (seen.has(term)) {
+            continue;
+        }
+        const termTokens = estimateTokens(term + ', ');
+        if (tokens + termTokens > MAX_PROMPT_TOKENS) {
+            break;
+        }
+        seen.add(term);
+        terms.push(term);
+        tokens += termTokens;
+    }
+
+    if (terms.length > 0) {
+        console.log(`Using ${terms.length} vocabulary terms as the transcription prompt`);
+    }
+    return terms.join(', ');
+}
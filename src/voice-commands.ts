@@ -0,0 +1,356 @@
+import * as vscode from 'vscode';
+
+/**
+ * This module runs VS Code commands by voice. A transcript recorded in command mode,
+ * or one that starts with the configured wake phrase, is matched against a grammar of
+ * phrases like "go to line {number}" and the command of the closest phrase is executed.
+ * Matching is fuzzy per word, so small transcription errors don't prevent a match.
+ */
+
+/**
+ * A phrase and the command it runs
+ */
+export interface VoiceCommand {
+    // Words to say; {number} captures a number and any other {name} one or more words
+    phrase: string;
+    // The VS Code command ID
+    command: string;
+    // Argument passed to the command; "{name}" in its strings is replaced with what was captured
+    args?: unknown;
+}
+
+/**
+ * How a transcript is checked for a voice command: recorded in command mode,
+ * or as a normal dictation that is a command only if it starts with the wake phrase
+ */
+export type VoiceCommandMode = 'always' | 'wakePhrase';
+
+/**
+ * The command a transcript matched, with the captured words
+ */
+export interface VoiceCommandMatch {
+    voiceCommand: VoiceCommand;
+    captures: Record<string, string | number>;
+    // Average similarity of the phrase's words to the spoken ones, between 0 and 1
+    score: number;
+}
+
+const BUILT_IN_COMMANDS: VoiceCommand[] = [
+    { phrase: 'go to line {number}', command: 'whisper-to-clipboard.goToLine', args: '{number}' },
+    { phrase: 'open file {name}', command: 'workbench.action.quickOpen', args: '{name}' },
+    { phrase: 'find {text}', command: 'editor.actions.findWithArgs', args: { searchString: '{text}' } },
+    { phrase: 'format document', command: 'editor.action.formatDocument' },
+    { phrase: 'run tests', command: 'testing.runAll' },
+    { phrase: 'save file', command: 'workbench.action.files.save' },
+    { phrase: 'save all', command: 'workbench.action.files.saveAll' },
+    { phrase: 'close editor', command: 'workbench.action.closeActiveEditor' },
+    { phrase: 'comment line', command: 'editor.action.commentLine' },
+    { phrase: 'new terminal', command: 'workbench.action.terminal.new' },
+    { phrase: 'show problems', command: 'workbench.actions.view.problems' },
+    { phrase: 'toggle sidebar', command: 'workbench.action.toggleSidebarVisibility' }
+];
+
+// Lowest average word similarity that counts as a match
+const MIN_MATCH_SCORE = 0.75;
+// Lowest similarity of a single word, so that one good word can't make up for a wrong one
+const MIN_WORD_SCORE = 0.5;
+// Words people add to commands that the phrases don't need; they are skipped unless a phrase or placeholder takes them
+const FILLER_WORDS = new Set(['please', 'the', 'a', 'an', 'um', 'uh']);
+// Spoken symbols in captured text, e.g. "extension dot ts" for a file name
+const SPOKEN_SYMBOLS: Record<string, string> = { dot: '.', slash: '/', dash: '-', underscore: '_' };
+const NUMBER_WORDS = [
+    'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+    'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'
+];
+const TENS_WORDS: Record<string, number> = {
+    twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90
+};
+
+// Function to check if a value from the settings is a usable voice command
+function isVoiceCommand(value: any): value is VoiceCommand {
+    return typeof value === 'object' && value !== null
+        && typeof value.phrase === 'string' && value.phrase.trim().length > 0
+        && typeof value.command === 'string' && value.command.trim().length > 0;
+}
+
+/**
+ * Gets the voice commands from the voiceCommands setting followed by the built-in ones.
+ * A user-defined command with the phrase of a built-in one replaces it.
+ */
+export function getVoiceCommands(): VoiceCommand[] {
+    const config = vscode.workspace.getConfiguration('whisperToClipboard');
+    const custom = config.get<any[]>('voiceCommands', []).filter(isVoiceCommand);
+    const phraseKey = (voiceCommand: VoiceCommand) => splitWords(voiceCommand.phrase).join(' ').toLowerCase();
+    const customPhrases = new Set(custom.map(phraseKey));
+    return [...custom, ...BUILT_IN_COMMANDS.filter(voiceCommand => !customPhrases.has(phraseKey(voiceCommand)))];
+}
+
+// Function to get the configured wake phrase, empty if transcripts are only matched in command mode
+export function getWakePhrase(): string {
+    return vscode.workspace.getConfiguration('whisperToClipboard').get<string>('voiceCommandWakePhrase', '').trim();
+}
+
+// Function to split text into words without the punctuation around them
+function splitWords(text: string): string[] {
+    return text
+        .split(/\s+/)
+        .map(word => word.replace(/^[^\p{L}\p{N}{]+|[^\p{L}\p{N}}]+$/gu, ''))
+        .filter(word => word.length > 0);
+}
+
+// Function to check if a word can be left out when matching
+function isFiller(word: string): boolean {
+    return FILLER_WORDS.has(word.toLowerCase());
+}
+
+// Function to compute the edit distance between two words
+function levenshtein(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+// Function to rate how alike two words are regardless of case, from 0 (nothing in common) to 1 (equal)
+function similarity(a: string, b: string): number {
+    const length = Math.max(a.length, b.length);
+    return length === 0 ? 1 : 1 - levenshtein(a.toLowerCase(), b.toLowerCase()) / length;
+}
+
+// Function to read a captured number, written as digits or in words, e.g. "one hundred and twenty five"
+function parseNumber(words: string[]): number | undefined {
+    if (words.length === 1 && /^\d+$/.test(words[0])) {
+        return parseInt(words[0], 10);
+    }
+
+    // The thousands already complete, and the part below a thousand that is being read
+    let total = 0;
+    let current = 0;
+    let previous: 'unit' | 'tens' | 'hundred' | 'thousand' | 'and' | null = null;
+    for (const word of words.flatMap(word => word.toLowerCase().split('-'))) {
+        const unit = NUMBER_WORDS.indexOf(word);
+        if (unit === 0) {
+            // Only "zero" on its own
+            if (words.length !== 1) {
+                return undefined;
+            }
+        } else if (unit > 0) {
+            // A unit follows tens only below ten ("twenty five", not "twenty fifteen") and never another unit
+            if (previous === 'unit' || (previous === 'tens' && unit >= 10)) {
+                return undefined;
+            }
+            current += unit;
+            previous = 'unit';
+        } else if (word in TENS_WORDS) {
+            if (previous === 'unit' || previous === 'tens') {
+                return undefined;
+            }
+            current += TENS_WORDS[word];
+            previous = 'tens';
+        } else if (word === 'hundred') {
+            if (previous !== 'unit' || current >= 10) {
+                return undefined;
+            }
+            current *= 100;
+            previous = 'hundred';
+        } else if (word === 'thousand') {
+            if (previous === null || previous === 'thousand' || previous === 'and' || total > 0) {
+                return undefined;
+            }
+            total = current * 1000;
+            current = 0;
+            previous = 'thousand';
+        } else if (word === 'and' && (previous === 'hundred' || previous === 'thousand')) {
+            previous = 'and';
+        } else {
+            return undefined;
+        }
+    }
+    if (previous === null || previous === 'and') {
+        return words.length === 1 && words[0].toLowerCase() === 'zero' ? 0 : undefined;
+    }
+    return total + current;
+}
+
+/**
+ * Moves the cursor of the active editor to the start of a line and scrolls it into view
+ * @param line The line number as shown in the editor, starting at 1
+ */
+export function goToLine(line: number): void {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+        vscode.window.showWarningMessage(`No active editor to go to line ${line} in.`);
+        return;
+    }
+    const index = Math.min(Math.max(1, Math.floor(line)), editor.document.lineCount) - 1;
+    const position = new vscode.Position(index, editor.document.lineAt(index).firstNonWhitespaceCharacterIndex);
+    editor.selection = new vscode.Selection(position, position);
+    editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+}
+
+// Function to turn captured words into text, with spoken symbols written as characters
+function joinCapture(words: string[]): string {
+    return words.map(word => SPOKEN_SYMBOLS[word.toLowerCase()] ?? ` ${word} `).join('').replace(/\s+/g, ' ').replace(/ ?([./_-]) ?/g, '$1').trim();
+}
+
+// Function to match the phrase's words from the given positions on; returns the summed word scores of the best match
+function matchWords(
+    phrase: string[],
+    spoken: string[],
+    phraseIndex: number,
+    spokenIndex: number,
+    captures: Record<string, string | number>
+): number | null {
+    if (phraseIndex === phrase.length) {
+        return spoken.slice(spokenIndex).every(isFiller) ? 0 : null;
+    }
+    if (spokenIndex === spoken.length) {
+        return null;
+    }
+
+    const word = phrase[phraseIndex];
+    const placeholder = /^\{(\w+)\}$/.exec(word);
+    if (!placeholder) {
+        const score = similarity(word, spoken[spokenIndex]);
+        if (score >= MIN_WORD_SCORE) {
+            const rest = matchWords(phrase, spoken, phraseIndex + 1, spokenIndex + 1, captures);
+            if (rest !== null) {
+                return score + rest;
+            }
+        }
+        return isFiller(spoken[spokenIndex]) ? matchWords(phrase, spoken, phraseIndex, spokenIndex + 1, captures) : null;
+    }
+
+    // A placeholder takes one or more words; the last one takes all that are left
+    const name = placeholder[1];
+    const isLast = phraseIndex === phrase.length - 1;
+    const firstEnd = isLast ? spoken.length : spokenIndex + 1;
+    const lastEnd = isLast ? spoken.length : spoken.length - 1;
+    let best: { score: number, captures: Record<string, string | number> } | null = null;
+    for (let end = firstEnd; end <= lastEnd; end++) {
+        const captured = spoken.slice(spokenIndex, end);
+        const value = name === 'number' ? parseNumber(captured) : joinCapture(captured);
+        if (value === undefined) {
+            continue;
+        }
+        const restCaptures = { ...captures, [name]: value };
+        const rest = matchWords(phrase, spoken, phraseIndex + 1, end, restCaptures);
+        if (rest !== null && (!best || rest > best.score)) {
+            best = { score: rest, captures: restCaptures };
+        }
+    }
+    if (!best) {
+        return null;
+    }
+    Object.assign(captures, best.captures);
+    return best.score;
+}
+
+/**
+ * Finds the voice command a transcript stands for
+ * @param text The transcript, without the wake phrase
+ * @param voiceCommands The commands to choose from; on a tie the earlier one wins
+ * @returns The best match, or undefined if no phrase is close enough
+ */
+export function matchVoiceCommand(text: string, voiceCommands: VoiceCommand[]): VoiceCommandMatch | undefined {
+    const spoken = splitWords(text);
+    let best: VoiceCommandMatch | undefined;
+
+    for (const voiceCommand of voiceCommands) {
+        const phrase = splitWords(voiceCommand.phrase);
+        const literalCount = phrase.filter(word => !/^\{\w+\}$/.test(word)).length;
+        const captures: Record<string, string | number> = {};
+        const total = matchWords(phrase, spoken, 0, 0, captures);
+        if (total === null || literalCount === 0) {
+            continue;
+        }
+        const score = total / literalCount;
+        if (score >= MIN_MATCH_SCORE && (!best || score > best.score)) {
+            best = { voiceCommand, captures, score };
+        }
+    }
+    return best;
+}
+
+/**
+ * Removes the wake phrase from the start of a transcript
+ * @returns The rest of the transcript, or undefined if it doesn't start with the wake phrase
+ */
+export function stripWakePhrase(text: string, wakePhrase: string): string | undefined {
+    const wakeWords = splitWords(wakePhrase);
+    const words = text.trim().split(/\s+/);
+    if (wakeWords.length === 0 || words.length <= wakeWords.length) {
+        return undefined;
+    }
+    const heard = splitWords(words.slice(0, wakeWords.length).join(' '));
+    if (heard.length !== wakeWords.length || heard.some((word, i) => similarity(word, wakeWords[i]) < MIN_MATCH_SCORE)) {
+        return undefined;
+    }
+    return words.slice(wakeWords.length).join(' ');
+}
+
+// Function to put the captured words into the command's argument
+function fillArgs(args: unknown, captures: Record<string, string | number>): unknown {
+    if (typeof args === 'string') {
+        // An argument that is just a placeholder keeps the type of the capture, e.g. a number
+        const whole = /^\{(\w+)\}$/.exec(args);
+        if (whole && whole[1] in captures) {
+            return captures[whole[1]];
+        }
+        return args.replace(/\{(\w+)\}/g, (placeholder, name: string) => name in captures ? String(captures[name]) : placeholder);
+    }
+    if (Array.isArray(args)) {
+        return args.map(item => fillArgs(item, captures));
+    }
+    if (typeof args === 'object' && args !== null) {
+        return Object.fromEntries(Object.entries(args).map(([key, value]) => [key, fillArgs(value, captures)]));
+    }
+    return args;
+}
+
+/**
+ * Runs the VS Code command a transcript stands for
+ * @param text The transcript
+ * @param mode Whether the whole transcript is a command, or only if it starts with the wake phrase
+ * @returns Whether a command was run; if not, the transcript should be delivered as usual
+ */
+export async function runVoiceCommand(text: string, mode: VoiceCommandMode): Promise<boolean> {
+    let commandText: string | undefined = text;
+    if (mode === 'wakePhrase') {
+        const wakePhrase = getWakePhrase();
+        commandText = wakePhrase ? stripWakePhrase(text, wakePhrase) : undefined;
+        if (commandText === undefined) {
+            return false;
+        }
+    }
+
+    const match = matchVoiceCommand(commandText, getVoiceCommands());
+    if (!match) {
+        console.log(`No voice command matches "${commandText}"`);
+        vscode.window.setStatusBarMessage('No voice command matched, delivering the transcript', 5000);
+        return false;
+    }
+
+    const { voiceCommand, captures } = match;
+    console.log(`Voice command "${voiceCommand.phrase}" (score ${match.score.toFixed(2)}) runs ${voiceCommand.command}`);
+    try {
+        if (voiceCommand.args === undefined) {
+            await vscode.commands.executeCommand(voiceCommand.command);
+        } else {
+            await vscode.commands.executeCommand(voiceCommand.command, fillArgs(voiceCommand.args, captures));
+        }
+        vscode.window.setStatusBarMessage(`Voice command: ${voiceCommand.phrase}`, 3000);
+    } catch (error: any) {
+        vscode.window.showErrorMessage(`Voice command "${voiceCommand.phrase}" failed: ${error?.message ?? String(error)}`);
+    }
+    return true;
+}
@@ -0,0 +1,240 @@
+import * as fs from 'fs';
+
+/**
+ * This module reads and repairs the headers of the PCM WAV files written by the recorders.
+ * A recorder that is interrupted can leave a header whose sizes don't match the data
+ * that actually reached the disk.
+ */
+
+/**
+ * Format and layout of a WAV file
+ */
+export interface WavInfo {
+    sampleRate: number;
+    channels: number;
+    bitsPerSample: number;
+    dataOffset: number;
+    dataLength: number;
+    durationSeconds: number;
+}
+
+/**
+ * Result of checking a WAV file
+ */
+export interface WavCheckResult {
+    info: WavInfo;
+    repaired: boolean;
+}
+
+// Sizes written by recorders that never got to update the header
+const PLACEHOLDER_SIZES = [0, 0xFFFFFFFF, 0x7FFFFFFF, 0x7FFFF000];
+
+/**
+ * Reads the format and data chunk of a WAV file without changing it
+ * @param file The path to the WAV file
+ * @returns The file's layout, or null if it is not a PCM WAV file
+ */
+export function readWavInfo(file: string): WavInfo | null {
+    const fd = fs.openSync(file, 'r');
+    try {
+        return parseWav(fd, fs.fstatSync(fd).size)?.info ?? null;
+    } finally {
+        fs.closeSync(fd);
+    }
+}
+
+/**
+ * Checks that the RIFF and data chunk sizes of a WAV file match the file on disk
+ * and rewrites them if they don't
+ * @param file The path to the WAV file
+ * @returns The file's layout after any repair, or null if it is not a PCM WAV file
+ */
+export function checkAndRepairWav(file: string): WavCheckResult | null {
+    const fd = fs.openSync(file, 'r+');
+    try {
+        const fileSize = fs.fstatSync(fd).size;
+        const parsed = parseWav(fd, fileSize);
+        if (!parsed) {
+            return null;
+        }
+
+        const { info, declaredDataLength, declaredRiffSize } = parsed;
+        const expectedRiffSize = fileSize - 8;
+        // The data chunk is the last chunk in files written by the recorders, so a larger
+        // declared length or a placeholder means the header was never finalized
+        const dataLengthWrong = declaredDataLength !== info.dataLength &&
+            (declaredDataLength > info.dataLength || PLACEHOLDER_SIZES.includes(declaredDataLength));
+        const riffSizeWrong = declaredRiffSize !== expectedRiffSize &&
+            (declaredRiffSize > expectedRiffSize || PLACEHOLDER_SIZES.includes(declaredRiffSize));
+
+        if (!dataLengthWrong && !riffSizeWrong) {
+            return { info: withDataLength(info, Math.min(declaredDataLength, info.dataLength)), repaired: false };
+        }
+
+        const sizeBuffer = Buffer.alloc(4);
+        sizeBuffer.writeUInt32LE(expectedRiffSize, 0);
+        fs.writeSync(fd, sizeBuffer, 0, 4, 4);
+        sizeBuffer.writeUInt32LE(info.dataLength, 0);
+        fs.writeSync(fd, sizeBuffer, 0, 4, info.dataOffset - 4);
+
+        console.log(`Repaired WAV header of ${file}: data length ${declaredDataLength} -> ${info.dataLength}`);
+        return { info, repaired: true };
+    } finally {
+        fs.closeSync(fd);
+    }
+}
+
+/**
+ * Joins WAV files with the same format into one file, e.g. the segments of a paused recording
+ * @param files The files to join, in order
+ * @param outputFile The path of the joined file
+ * @returns The layout of the joined file
+ */
+export function concatenateWavFiles(files: string[], outputFile: string): WavInfo {
+    const parts = files.map(file => {
+        const result = checkAndRepairWav(file);
+        if (!result) {
+            throw new Error(`${file} is not a PCM WAV file`);
+        }
+        return { file, info: result.info };
+    });
+    if (parts.length === 0) {
+        throw new Error('No WAV files to join');
+    }
+
+    const format = parts[0].info;
+    for (const part of parts) {
+        if (part.info.sampleRate !== format.sampleRate || part.info.channels !== format.channels || part.info.bitsPerSample !== format.bitsPerSample) {
+            throw new Error('Recording segments have different audio formats and cannot be joined');
+        }
+    }
+
+    const dataLength = parts.reduce((total, part) => total + part.info.dataLength, 0);
+    const header = createWavHeader(format.sampleRate, format.channels, format.bitsPerSample, dataLength);
+
+    const out = fs.openSync(outputFile, 'w');
+    try {
+        fs.writeSync(out, header);
+        const buffer = Buffer.alloc(1024 * 1024);
+        for (const part of parts) {
+            const fd = fs.openSync(part.file, 'r');
+            try {
+                let copied = 0;
+                while (copied < part.info.dataLength) {
+                    const bytesRead = fs.readSync(fd, buffer, 0, Math.min(buffer.length, part.info.dataLength - copied), part.info.dataOffset + copied);
+                    if (bytesRead === 0) {
+                        break;
+                    }
+                    fs.writeSync(out, buffer, 0, bytesRead);
+                    copied += bytesRead;
+                }
+            } finally {
+                fs.closeSync(fd);
+            }
+        }
+    } finally {
+        fs.closeSync(out);
+    }
+
+    return withDataLength({ ...format, dataOffset: 44, dataLength: 0, durationSeconds: 0 }, dataLength);
+}
+
+/**
+ * Creates the 44-byte header of a PCM WAV file
+ * @param dataLength Length of the sample data in bytes; a placeholder while the length is not known yet
+ */
+export function createWavHeader(sampleRate: number, channels: number, bitsPerSample: number, dataLength: number): Buffer {
+    const blockAlign = channels * (bitsPerSample / 8);
+    const header = Buffer.alloc(44);
+    header.write('RIFF', 0, 'ascii');
+    header.writeUInt32LE(Math.min(36 + dataLength, 0xFFFFFFFF), 4);
+    header.write('WAVE', 8, 'ascii');
+    header.write('fmt ', 12, 'ascii');
+    header.writeUInt32LE(16, 16);
+    header.writeUInt16LE(1, 20); // PCM
+    header.writeUInt16LE(channels, 22);
+    header.writeUInt32LE(sampleRate, 24);
+    header.writeUInt32LE(sampleRate * blockAlign, 28);
+    header.writeUInt16LE(blockAlign, 32);
+    header.writeUInt16LE(bitsPerSample, 34);
+    header.write('data', 36, 'ascii');
+    header.writeUInt32LE(dataLength, 40);
+    return header;
+}
+
+/**
+ * Writes 16-bit mono PCM samples as a WAV file
+ */
+export function writeWavFile(file: string, pcm: Buffer, sampleRate: number): void {
+    fs.writeFileSync(file, Buffer.concat([createWavHeader(sampleRate, 1, 16, pcm.length), pcm]));
+}
+
+// Function to update the data length and duration of a WAV layout
+function withDataLength(info: WavInfo, dataLength: number): WavInfo {
+    const bytesPerSecond = info.sampleRate * info.channels * (info.bitsPerSample / 8);
+    return { ...info, dataLength, durationSeconds: dataLength / bytesPerSecond };
+}
+
+// Function to walk the chunks of a WAV file. The returned info describes the data
+// that is actually on disk; the declared sizes are returned alongside it.
+function parseWav(fd: number, fileSize: number): { info: WavInfo, declaredDataLength: number, declaredRiffSize: number } | null {
+    if (fileSize < 12) {
+        return null;
+    }
+
+    const riffHeader = Buffer.alloc(12);
+    fs.readSync(fd, riffHeader, 0, 12, 0);
+    if (riffHeader.toString('ascii', 0, 4) !== 'RIFF' || riffHeader.toString('ascii', 8, 12) !== 'WAVE') {
+        return null;
+    }
+    const declaredRiffSize = riffHeader.readUInt32LE(4);
+
+    let sampleRate = 0;
+    let channels = 0;
+    let bitsPerSample = 0;
+    let offset = 12;
+    const chunkHeader = Buffer.alloc(8);
+
+    while (offset + 8 <= fileSize) {
+        fs.readSync(fd, chunkHeader, 0, 8, offset);
+        const chunkId = chunkHeader.toString('ascii', 0, 4);
+        const chunkSize = chunkHeader.readUInt32LE(4);
+        const chunkDataOffset = offset + 8;
+
+        if (chunkId === 'fmt ') {
+            const fmt = Buffer.alloc(16);
+            fs.readSync(fd, fmt, 0, 16, chunkDataOffset);
+            channels = fmt.readUInt16LE(2);
+            sampleRate = fmt.readUInt32LE(4);
+            bitsPerSample = fmt.readUInt16LE(14);
+        } else if (chunkId === 'data') {
+            if (!sampleRate || !channels || !bitsPerSample) {
+                return null;
+            }
+
+            // Only whole sample frames count as data
+            const blockAlign = channels * (bitsPerSample / 8);
+            const available = fileSize - chunkDataOffset;
+            const dataLength = available - (available % blockAlign);
+            const bytesPerSecond = sampleRate * blockAlign;
+
+            return {
+                info: {
+                    sampleRate,
+                    channels,
+                    bitsPerSample,
+                    dataOffset: chunkDataOffset,
+                    dataLength,
+                    durationSeconds: dataLength / bytesPerSecond
+                },
+                declaredDataLength: chunkSize,
+                declaredRiffSize
+            };
+        }
+
+        // Chunks are padded to an even number of bytes
+        offset = chunkDataOffset + chunkSize + (chunkSize % 2);
+    }
+
+    return null;
+}